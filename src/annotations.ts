@@ -0,0 +1,171 @@
+import path from 'path';
+import fs from 'fs-extra';
+import yaml from 'js-yaml';
+import { Annotation, AnnotationNoteMode, HighlightedFile } from './utils/types';
+import { logger } from './utils/logger';
+
+/** The note placements selectable with `--annotation-notes`. */
+export const ANNOTATION_NOTE_MODES: AnnotationNoteMode[] = ['margin', 'appendix'];
+
+/** File extensions of annotations files parsed as YAML; any other file is parsed as JSON. */
+const YAML_FILE_EXTENSIONS = ['.yaml', '.yml'];
+
+/** Accepted color notation: '#rgb' or '#rrggbb'. */
+const COLOR_PATTERN = /^#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/;
+
+/** A line range: a single line ("12") or the first and last line ("10-24"). */
+const LINE_RANGE_PATTERN = /^\s*(\d+)\s*(?:-\s*(\d+)\s*)?$/;
+
+/** The keys accepted in an annotation entry. */
+const ANNOTATION_KEYS = ['file', 'lines', 'note', 'color'];
+
+/**
+ * An annotation placed in the document, with the number of its callout marker.
+ */
+export interface NumberedAnnotation extends Annotation {
+    /** The number shown in the callout marker and before the note, or null for annotations without a note. */
+    number: number | null;
+}
+
+/**
+ * Parses a line range such as "10-24" or "12".
+ * @param spec The range.
+ * @returns The first and last line (1-based, inclusive).
+ * @throws An error if the range is malformed, starts at 0 or ends before it starts.
+ */
+function parseLineRange(spec: string): { startLine: number; endLine: number } {
+    const match = spec.match(LINE_RANGE_PATTERN);
+    if (!match) {
+        throw new Error(`invalid line range "${spec}" (use "start-end" or a single line, e.g. "10-24")`);
+    }
+    const startLine = Number(match[1]);
+    const endLine = match[2] === undefined ? startLine : Number(match[2]);
+    if (startLine < 1 || endLine < startLine) {
+        throw new Error(`invalid line range "${spec}" (lines start at 1 and the range must not end before it starts)`);
+    }
+    return { startLine, endLine };
+}
+
+/**
+ * Normalizes an annotated file path so it matches the relative paths of scanned files ("./src\\a.ts" -> "src/a.ts").
+ * @param file The path as written by the user.
+ * @returns The normalized path.
+ */
+function normalizeAnnotationPath(file: string): string {
+    return path.posix.normalize(file.trim().replace(/\\/g, '/')).replace(/^\.\//, '');
+}
+
+/**
+ * Parses a `--highlight` value: a file path and a line range separated by a colon, e.g. "src/a.ts:10-24".
+ * @param spec The option value.
+ * @returns The highlighted range, without a note.
+ * @throws An error describing what is wrong with the value.
+ */
+export function parseHighlightSpec(spec: string): Annotation {
+    const separator = spec.lastIndexOf(':');
+    const file = separator > 0 ? spec.substring(0, separator).trim() : '';
+    if (!file) {
+        throw new Error(`expected "path:start-end", e.g. "src/a.ts:10-24"`);
+    }
+    return { file: normalizeAnnotationPath(file), ...parseLineRange(spec.substring(separator + 1)), note: null, color: null };
+}
+
+/**
+ * Checks and converts one entry of an annotations file.
+ * @param entry The parsed entry.
+ * @param index The position of the entry in the file (used in error messages).
+ * @returns The annotation.
+ * @throws An error describing every problem with the entry.
+ */
+function parseAnnotationEntry(entry: unknown, index: number): Annotation {
+    const location = `annotation ${index + 1}`;
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+        throw new Error(`${location} must be an object with "file" and "lines"`);
+    }
+    const values = entry as Record<string, unknown>;
+    const problems: string[] = [];
+    for (const key of Object.keys(values)) {
+        if (!ANNOTATION_KEYS.includes(key)) problems.push(`unknown key "${key}" (allowed: ${ANNOTATION_KEYS.join(', ')})`);
+    }
+    if (typeof values.file !== 'string' || !values.file.trim()) {
+        problems.push('"file" must be a path relative to the repository root');
+    }
+    let range = { startLine: 0, endLine: 0 };
+    if (typeof values.lines !== 'string' && typeof values.lines !== 'number') {
+        problems.push('"lines" must be a line range such as "10-24" or a line number');
+    } else {
+        try {
+            range = parseLineRange(String(values.lines));
+        } catch (error) {
+            problems.push(`"lines" has an ${(error as Error).message}`);
+        }
+    }
+    if (values.note !== undefined && values.note !== null && typeof values.note !== 'string') {
+        problems.push('"note" must be a string');
+    }
+    if (values.color !== undefined && values.color !== null && (typeof values.color !== 'string' || !COLOR_PATTERN.test(values.color))) {
+        problems.push(`"color" must be a color like "#fff3b0" (got ${JSON.stringify(values.color)})`);
+    }
+    if (problems.length > 0) {
+        throw new Error(`${location}: ${problems.join('; ')}`);
+    }
+    const note = typeof values.note === 'string' && values.note.trim() ? values.note.trim() : null;
+    return { file: normalizeAnnotationPath(values.file as string), ...range, note, color: (values.color as string | undefined) ?? null };
+}
+
+/**
+ * Reads an annotations file: a JSON or YAML list of entries (or an object with an `annotations` list),
+ * each with `file`, `lines` ("10-24" or a single line) and optionally `note` and `color`.
+ * @param filePath The absolute path of the file.
+ * @returns The annotations, in file order.
+ * @throws An error with a descriptive message if the file cannot be read or parsed, or contains invalid entries.
+ */
+export async function loadAnnotationsFile(filePath: string): Promise<Annotation[]> {
+    let parsed: unknown;
+    try {
+        const content = await fs.readFile(filePath, 'utf-8');
+        parsed = YAML_FILE_EXTENSIONS.includes(path.extname(filePath).toLowerCase()) ? yaml.load(content) : JSON.parse(content);
+    } catch (error) {
+        throw new Error(`Could not read annotations file ${filePath}: ${(error as Error).message}`);
+    }
+    const entries = (typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed))
+        ? (parsed as Record<string, unknown>).annotations
+        : parsed;
+    if (!Array.isArray(entries)) {
+        throw new Error(`Invalid annotations file ${filePath}: expected a list of annotations (or an object with an "annotations" list).`);
+    }
+    try {
+        const annotations = entries.map(parseAnnotationEntry);
+        logger.debug(`Loaded ${annotations.length} annotation(s) from ${filePath}.`);
+        return annotations;
+    } catch (error) {
+        throw new Error(`Invalid annotations file ${filePath}: ${(error as Error).message}.`);
+    }
+}
+
+/**
+ * Matches annotations to the files in the document, sorts them in document order and numbers the ones
+ * with a note. Annotations for files that are not printed are skipped with a warning, and ranges running
+ * past the end of a file are clipped to its last line.
+ * @param annotations The annotations from the annotations file and `--highlight`.
+ * @param files The files in the order they are printed.
+ * @returns The annotations placed in the document.
+ */
+export function numberAnnotations(annotations: Annotation[], files: HighlightedFile[]): NumberedAnnotation[] {
+    const fileOrder = new Map(files.map((file, index) => [file.relativePath, index]));
+    const lineCounts = new Map(files.map(file => [file.relativePath, file.highlightedLines.reduce((max, line) => Math.max(max, line.lineNumber), 0)]));
+    const placed: Annotation[] = [];
+    for (const annotation of annotations) {
+        const lineCount = lineCounts.get(annotation.file);
+        if (lineCount === undefined) {
+            logger.warn(`Skipping annotation for ${annotation.file}:${annotation.startLine}: the file is not part of the document.`);
+        } else if (annotation.startLine > lineCount) {
+            logger.warn(`Skipping annotation for ${annotation.file}:${annotation.startLine}: the file has only ${lineCount} line(s).`);
+        } else {
+            placed.push({ ...annotation, endLine: Math.min(annotation.endLine, lineCount) });
+        }
+    }
+    placed.sort((a, b) => (fileOrder.get(a.file)! - fileOrder.get(b.file)!) || (a.startLine - b.startLine) || (a.endLine - b.endLine));
+    let nextNumber = 1;
+    return placed.map(annotation => ({ ...annotation, number: annotation.note !== null ? nextNumber++ : null }));
+}
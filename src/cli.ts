@@ -5,8 +5,33 @@ import path from 'path';
 import fs from 'fs-extra';
 import { run } from './main';
 import { logger } from './utils/logger';
-import { PdfOptions } from './utils/types';
-import { themes } from './utils/themes'; // Import available themes for validation
+import { Annotation, AnnotationNoteMode, BlankPageMode, ContrastMode, FontVariants, Orientation, PageTemplate, PdfOptions, PrintMode, WrapMode } from './utils/types';
+import { parseDiffContext, parseDiffRange } from './git-diff';
+import { GRAMMAR_FILE_EXTENSIONS } from './language-detector';
+import { WRAP_MODES } from './line-layout';
+import { BLANK_PAGE_MODES, ORIENTATIONS, PAPER_SIZE_NAMES } from './pdf-renderer';
+import { findUnknownPlaceholders, parsePageTemplate, TEMPLATE_PLACEHOLDERS } from './page-templates';
+import { ANNOTATION_NOTE_MODES, loadAnnotationsFile, parseHighlightSpec } from './annotations';
+import { COMMENT_MARKER_TAG_PATTERN, DEFAULT_COMMENT_MARKER_TAGS } from './comment-markers';
+import { isThemeFile, listAvailableThemes, loadTheme, THEME_FILE_EXTENSION } from './theme-loader';
+import { importThemeFile } from './theme-importer';
+import { lookupScopeValue, PRINT_MODES, themes } from './utils/themes';
+import { CONTRAST_MODES, findContrastIssues, WCAG_AA_CONTRAST, WCAG_AAA_CONTRAST } from './utils/contrast';
+import { applyConfigProfile, CONFIG_FILE_NAMES, findConfigFile, loadConfigFile } from './config';
+import { EMBEDDABLE_FONT_EXTENSIONS, getStandardFontNames, isEmbeddableFontFile, isStandardFont } from './utils/fonts';
+
+/** Default page margins (in points), used unless the configuration file overrides them. */
+const DEFAULT_MARGINS: PdfOptions['margins'] = { top: 50, right: 40, bottom: 50, left: 40 };
+/** Default height (in points) of the page header (file path). */
+const DEFAULT_HEADER_HEIGHT = 25;
+/** Default height (in points) of the page footer (page number). */
+const DEFAULT_FOOTER_HEIGHT = 25;
+/** Default page header: the file path, left-aligned. */
+const DEFAULT_HEADER_TEMPLATE = '{file}';
+/** Default page footer: the page number, centered. */
+const DEFAULT_FOOTER_TEMPLATE = '|Page {page}|';
+/** Default title of the Table of Contents page. */
+const DEFAULT_TOC_TITLE = 'Table of Contents';
 
 /**
  * Reads the package version from package.json.
@@ -32,6 +57,16 @@ function getPackageVersion(): string {
     return packageVersion;
 }
 
+/**
+ * Collects the values of a repeatable option into an array (used as a Commander option parser).
+ * @param value The value given for the current occurrence of the option.
+ * @param previous The values collected so far.
+ * @returns The collected values including the new one.
+ */
+function collectValues(value: string, previous: string[]): string[] {
+    return previous.concat([value]);
+}
+
 /**
  * Creates and configures the Commander program for the CLI, defining arguments and options.
  * @returns The configured Commander program instance.
@@ -44,38 +79,221 @@ function setupCli(): Command {
         .name('codepdf')
         .description('Convert code repositories or directories to beautiful PDFs with syntax highlighting.')
         .version(packageVersion)
+        // Options after a subcommand name (e.g. "theme import -o") belong to the subcommand
+        .enablePositionalOptions()
         .argument('<repository-path>', 'Path to the code repository or directory to process')
         .option('-o, --output <path>', 'Output path for the generated PDF file.', 'code-output.pdf')
         .option('-t, --title <title>', 'Title for the PDF document cover page.', 'Code Repository Documentation')
         .option('-f, --font-size <size>', 'Font size (in points) for code blocks.', '9')
-        .option('--theme <name>', `Syntax highlighting theme (available: ${Object.keys(themes).join(', ')}).`, 'light')
+        .option('--theme <name>', `Syntax highlighting theme: ${Object.keys(themes).join(', ')}, a theme from --themes-dir, or a path to a ${THEME_FILE_EXTENSION} theme file (see "codepdf themes").`, 'light')
+        .option('--themes-dir <dir>', `Directory of additional ${THEME_FILE_EXTENSION} theme files, selectable by file name.`)
+        .option('--contrast <mode>', 'What to do with theme colors below --min-contrast: warn, fix (adjust them) or off.', 'warn')
+        .option('--min-contrast <ratio>', `Minimum WCAG contrast ratio between text and its background (${WCAG_AA_CONTRAST} is level AA, ${WCAG_AAA_CONTRAST} is AAA).`, String(WCAG_AA_CONTRAST))
+        .option('--print-mode <mode>', `Rendering mode: ${PRINT_MODES.join(', ')} ("mono" prints in grayscale, styling tokens by weight instead of hue, without filled backgrounds).`, 'color')
         // Default is true, --no-line-numbers flag makes it false via Commander's boolean handling
         .option('--line-numbers', 'Show line numbers in code blocks (default).', true)
         .option('--no-line-numbers', 'Hide line numbers in code blocks.')
-        .option('--paper-size <size>', 'Paper size (A4, Letter, or width,height in points e.g., "595.28,841.89").', 'A4')
+        .option('--tab-width <columns>', 'Number of columns between tab stops; tabs are expanded to spaces.', '4')
+        .option('--show-whitespace', 'Draw visible markers for tabs, trailing spaces and non-breaking or zero-width characters.', false)
+        .option('--wrap <mode>', `How lines longer than the page are handled: ${WRAP_MODES.join(', ')} (reduce the font size per file so the longest line fits).`, 'wrap')
+        .option('--min-font-size <size>', 'Smallest font size (in points) --wrap shrink may reduce a file to.', '6')
+        .option('--paper-size <size>', `Paper size (${PAPER_SIZE_NAMES.join(', ')}, or portrait width,height in points e.g., "595.28,841.89").`, 'A4')
+        .option('--columns <count>', 'Number of columns code flows through on each page (1-4).', '1')
+        .option('--pack-files', 'Pack small files onto the same page, separated by file banners, instead of starting each file on a new page.', false)
+        .option('--duplex', 'Lay out pages for double-sided printing: the left/right margins become inner/outer margins mirrored on even pages, and header/footer sections are mirrored so the left section sits at the outer edge.', false)
+        .option('--recto-starts', 'Insert blank pages so the Table of Contents and every file start on a recto (odd) page.', false)
+        .option('--blank-pages <mode>', `What inserted blank pages show: ${BLANK_PAGE_MODES.join(', ')} ("uncounted" leaves them empty and out of the page numbering).`, 'marked')
+        .option('--orientation <mode>', `Page orientation: ${ORIENTATIONS.join(', ')} ("auto" turns the pages of files whose longest line would wrap on a portrait page).`, 'portrait')
+        .option('--header <template>', `Page header: "left|center|right" sections with placeholders (${TEMPLATE_PLACEHOLDERS.map(name => `{${name}}`).join(', ')}).`, DEFAULT_HEADER_TEMPLATE)
+        .option('--footer <template>', 'Page footer: "left|center|right" sections with the same placeholders as --header.', DEFAULT_FOOTER_TEMPLATE)
+        .option('--header-height <points>', 'Height of the page header (0 hides it).', String(DEFAULT_HEADER_HEIGHT))
+        .option('--footer-height <points>', 'Height of the page footer (0 hides it).', String(DEFAULT_FOOTER_HEIGHT))
+        .option('--annotations <file>', 'Review file (JSON or YAML) listing line ranges to highlight, each with an optional note and color.')
+        .option('--highlight <file:lines>', 'Highlight a line range, e.g. "src/a.ts:10-24" (repeatable).', collectValues, [])
+        .option('--annotation-notes <mode>', `Where annotation notes are printed: ${ANNOTATION_NOTE_MODES.join(', ')} ("appendix" lists them after the code, linking back to each annotated page).`, 'margin')
+        .option('--code-font <font>', `Font for code: a standard PDF font (${getStandardFontNames().join(', ')}) or a .ttf/.otf file to embed.`, 'Courier')
+        .option('--code-font-bold <path>', 'Font file for bold code (used with an embedded --code-font).')
+        .option('--code-font-italic <path>', 'Font file for italic code (used with an embedded --code-font).')
+        .option('--code-font-bold-italic <path>', 'Font file for bold-italic code (used with an embedded --code-font).')
+        .option('--text-font <font>', `Font for titles, TOC, headers and footers: a standard PDF font (${getStandardFontNames().join(', ')}) or a .ttf/.otf file to embed.`, 'Helvetica')
+        .option('--text-font-bold <path>', 'Font file for bold text (used with an embedded --text-font).')
+        .option('--text-font-italic <path>', 'Font file for italic text (used with an embedded --text-font).')
+        .option('--text-font-bold-italic <path>', 'Font file for bold-italic text (used with an embedded --text-font).')
+        .option('--fallback-font <path>', 'Font file used for characters missing from the code/text font (repeatable, tried in order).', collectValues, [])
+        .option('--include <pattern>', 'Only include files matching this gitignore-style pattern (repeatable).', collectValues, [])
+        .option('--exclude <pattern>', 'Exclude files matching this gitignore-style pattern (repeatable).', collectValues, [])
+        .option('--unignore <dir>', 'Include a directory that is skipped by default, e.g. vendor or build (repeatable).', collectValues, [])
+        .option('--diff <range>', 'Print only files changed between two git revisions, e.g. "main..HEAD" ("main.." compares with the working tree).')
+        .option('--diff-context <lines>', 'Unchanged lines shown around each change in diff mode ("all" disables collapsing).', '3')
+        .option('--lang <ext=language>', 'Highlight files with this extension (or exact file name) as the given language, e.g. "inc=php" (repeatable).', collectValues, [])
+        .option('--grammar <file>', `Register a highlight.js language definition module (${GRAMMAR_FILE_EXTENSIONS.join(', ')}) under its file name (repeatable).`, collectValues, [])
+        .option('--outline-symbols', 'Add top-level functions and classes to the PDF outline (bookmarks).', false)
+        .option('--statistics', 'Add a statistics section after the cover page: lines per language (code, comments, blank), largest files and deepest directories.', false)
+        .option('--symbol-index', 'Append an alphabetical index of functions, classes, interfaces and methods with page numbers, each linking to its line.', false)
+        .option('--todo-index', `Append an inventory of comment markers (${DEFAULT_COMMENT_MARKER_TAGS.join(', ')}) grouped by tag and file, each linking to its line.`, false)
+        .option('--todo-tag <tag>', 'Collect an additional comment marker tag, e.g. "NOTE" (repeatable).', collectValues, [])
+        .option('--emphasize-todos', 'Emphasize lines with a comment marker in the code pages.', false)
+        .option('--no-import-links', 'Do not link imports and includes of printed files (TypeScript/JavaScript, Python, C/C++, Go) to those files.')
+        .option('-c, --config <file>', `Configuration file to use (default: ${CONFIG_FILE_NAMES.join(', ')} in the repository root, if present).`)
+        .option('--no-config', 'Ignore configuration files in the repository.')
+        .option('-p, --profile <name>', 'Named profile from the configuration file to apply (e.g. "review").')
         .option('-v, --verbose', 'Enable verbose (debug) logging output.', false)
         .action(runCliAction); // Delegate the core logic to the action function
 
+    program
+        .command('themes')
+        .description('List the available syntax themes with a preview.')
+        .option('--themes-dir <dir>', `Directory of additional ${THEME_FILE_EXTENSION} theme files.`)
+        .option('-c, --config <file>', `Configuration file to read "themesDir" from (default: ${CONFIG_FILE_NAMES.join(', ')} in the current directory, if present).`)
+        .option('--no-config', 'Ignore configuration files in the current directory.')
+        .option('-p, --profile <name>', 'Named profile from the configuration file to apply.')
+        .action(runThemesAction);
+
+    program
+        .command('theme')
+        .description('Manage syntax themes.')
+        .command('import')
+        .description('Convert a VS Code theme (.json) or a highlight.js stylesheet (.css) into a codepdf theme file.')
+        .argument('<file>', 'The theme file to convert')
+        .option('-o, --output <path>', `Where to write the converted ${THEME_FILE_EXTENSION} theme (default: print to standard output).`)
+        .option('-n, --name <name>', 'Name stored in the converted theme (default: the input file name).')
+        .action(runThemeImportAction);
+
     return program;
 }
 
+/**
+ * Parses a header or footer template option and checks its placeholders.
+ * Logs errors and exits the process with code 1 if validation fails.
+ * @param value The template given on the command line or in the configuration file.
+ * @param flag The option's flag, used in error messages (e.g. '--header').
+ * @returns The parsed template.
+ */
+function parseTemplateOption(value: string, flag: string): PageTemplate {
+    let template: PageTemplate;
+    try {
+        template = parsePageTemplate(String(value));
+    } catch (error) {
+        logger.error(`❌ Invalid ${flag} template "${value}": ${(error as Error).message}.`);
+        process.exit(1); // Exit on validation failure
+    }
+    const unknown = findUnknownPlaceholders(template);
+    if (unknown.length > 0) {
+        logger.error(`❌ Unknown placeholder(s) in ${flag}: ${unknown.map(name => `{${name}}`).join(', ')}. Available: ${TEMPLATE_PLACEHOLDERS.map(name => `{${name}}`).join(', ')}.`);
+        process.exit(1); // Exit on validation failure
+    }
+    return template;
+}
+
+/**
+ * Validates a font option, which is either a standard PDF font family or a TrueType/OpenType file.
+ * Logs errors and exits the process with code 1 if validation fails.
+ * @param value The option value given by the user.
+ * @param flag The option flag (used in error messages).
+ * @param allowStandard Whether a standard PDF font family name is accepted.
+ * @returns The standard font family name, or the absolute path to the font file.
+ */
+function resolveFontOption(value: string, flag: string, allowStandard: boolean): string {
+    if (allowStandard && isStandardFont(value)) {
+        return value;
+    }
+    const fontPath = path.resolve(process.cwd(), value);
+    if (!isEmbeddableFontFile(fontPath)) {
+        logger.error(`❌ Invalid value for ${flag}: "${value}".`);
+        logger.error(allowStandard
+            ? `   Use one of ${getStandardFontNames().join(', ')}, or a font file (${EMBEDDABLE_FONT_EXTENSIONS.join(', ')}).`
+            : `   Use a font file (${EMBEDDABLE_FONT_EXTENSIONS.join(', ')}).`);
+        process.exit(1); // Exit on validation failure
+    }
+    if (!fs.existsSync(fontPath)) {
+        logger.error(`❌ Font file for ${flag} not found: ${fontPath}`);
+        process.exit(1); // Exit on validation failure
+    }
+    return fontPath;
+}
+
+/**
+ * Validates the style variant options of a font family (e.g. --code-font-bold).
+ * @param options The parsed options object from Commander.
+ * @param role The family prefix of the options ('code' or 'text').
+ * @returns The resolved variant font paths.
+ */
+function resolveFontVariants(options: OptionValues, role: 'code' | 'text'): FontVariants {
+    const variants: FontVariants = {};
+    const bold = options[`${role}FontBold`];
+    const italic = options[`${role}FontItalic`];
+    const boldItalic = options[`${role}FontBoldItalic`];
+    if (bold) variants.bold = resolveFontOption(bold, `--${role}-font-bold`, false);
+    if (italic) variants.italic = resolveFontOption(italic, `--${role}-font-italic`, false);
+    if (boldItalic) variants.boldItalic = resolveFontOption(boldItalic, `--${role}-font-bold-italic`, false);
+    return variants;
+}
+
+/**
+ * Loads the project configuration file (given with --config or discovered in the repository root),
+ * applies the selected profile and merges the settings into the parsed options.
+ * Options given explicitly on the command line take precedence over the configuration file.
+ * Logs errors and exits the process with code 1 if the file or profile is invalid.
+ * @param resolvedRepoPath The absolute path to the repository.
+ * @param options The parsed options object from Commander (modified in place).
+ * @param command The Commander command, used to tell explicit options from defaults.
+ */
+async function applyConfigFile(resolvedRepoPath: string, options: OptionValues, command: Command): Promise<void> {
+    let configPath: string | null = null;
+    if (typeof options.config === 'string') {
+        configPath = path.resolve(process.cwd(), options.config);
+        if (!(await fs.pathExists(configPath))) {
+            logger.error(`❌ Configuration file not found: ${configPath}`);
+            process.exit(1); // Exit on validation failure
+        }
+    } else if (options.config !== false) { // --no-config disables discovery
+        configPath = await findConfigFile(resolvedRepoPath);
+    }
+
+    if (!configPath) {
+        if (options.profile) {
+            logger.error(`❌ Profile "${options.profile}" requested, but no configuration file was found.`);
+            process.exit(1); // Exit on validation failure
+        }
+        return;
+    }
+
+    let settings;
+    try {
+        settings = applyConfigProfile(await loadConfigFile(configPath), options.profile);
+    } catch (error) {
+        logger.error(`❌ ${(error as Error).message}`);
+        process.exit(1); // Exit on validation failure
+    }
+    logger.info(`Using configuration file: ${configPath}${options.profile ? ` (profile: ${options.profile})` : ''}`);
+
+    for (const [key, value] of Object.entries(settings)) {
+        // Config keys mostly match option names; a few need translating to the CLI representation
+        const optionKey = key === 'fallbackFonts' ? 'fallbackFont' : key === 'grammars' ? 'grammar' : key === 'highlights' ? 'highlight' : key === 'todoTags' ? 'todoTag' : key;
+        const optionValue = (key === 'paperSize' && Array.isArray(value)) ? value.join(',') : value;
+        if (command.getOptionValueSource(optionKey) === 'cli') {
+            logger.debug(`Option "${optionKey}" given on the command line overrides the configuration file.`);
+            continue;
+        }
+        options[optionKey] = optionValue;
+    }
+}
+
 /**
  * Validates parsed command-line options and constructs the PdfOptions object.
  * Logs errors and exits the process with code 1 if validation fails.
  * @param repoPathArg The repository path argument provided by the user.
  * @param options The parsed options object from Commander.
+ * @param command The Commander command, used to merge the configuration file.
  * @returns A Promise resolving to an object containing the validated PdfOptions and the resolved repository path.
  */
-async function validateAndPrepareOptions(repoPathArg: string, options: OptionValues): Promise<{ resolvedRepoPath: string; pdfOptions: PdfOptions }> {
+async function validateAndPrepareOptions(repoPathArg: string, options: OptionValues, command: Command): Promise<{ resolvedRepoPath: string; pdfOptions: PdfOptions }> {
     // Set logger verbosity based on the --verbose flag
     logger.setVerbose(options.verbose);
 
     // Resolve paths to absolute paths for consistency
     const resolvedRepoPath = path.resolve(process.cwd(), repoPathArg); // Resolve relative to current working directory
-    const resolvedOutputPath = path.resolve(process.cwd(), options.output);
-
     logger.info(`Input path resolved to: ${resolvedRepoPath}`);
-    logger.info(`Output path resolved to: ${resolvedOutputPath}`);
 
     // --- Validate Input Path ---
     try {
@@ -94,12 +312,40 @@ async function validateAndPrepareOptions(repoPathArg: string, options: OptionVal
         process.exit(1); // Exit on validation failure
     }
 
+    // --- Merge Configuration File ---
+    await applyConfigFile(resolvedRepoPath, options, command);
+    logger.setVerbose(options.verbose); // The configuration file may enable verbose output
+
+    const resolvedOutputPath = path.resolve(process.cwd(), options.output);
+    logger.info(`Output path resolved to: ${resolvedOutputPath}`);
+
     // --- Validate Theme ---
-    const themeName = options.theme.toLowerCase();
-    if (!themes[themeName]) {
-         logger.error(`❌ Invalid theme specified: "${options.theme}".`);
-         logger.error(`   Available themes: ${Object.keys(themes).join(', ')}`);
-         process.exit(1); // Exit on validation failure
+    const themesDir = options.themesDir ? path.resolve(process.cwd(), options.themesDir) : null;
+    const themeName = isThemeFile(options.theme) ? path.resolve(process.cwd(), options.theme) : options.theme.toLowerCase();
+    try {
+        await loadTheme(themeName, themesDir); // Loaded again by run(); this only reports problems early
+    } catch (error) {
+        logger.error(`❌ ${(error as Error).message}`);
+        process.exit(1); // Exit on validation failure
+    }
+
+    // --- Validate Print Mode ---
+    const printMode = String(options.printMode).toLowerCase() as PrintMode;
+    if (!PRINT_MODES.includes(printMode)) {
+        logger.error(`❌ Invalid print mode: "${options.printMode}". Use ${PRINT_MODES.map(mode => `"${mode}"`).join(' or ')}.`);
+        process.exit(1); // Exit on validation failure
+    }
+
+    // --- Validate Contrast Checking ---
+    const contrastMode = String(options.contrast).toLowerCase() as ContrastMode;
+    if (!CONTRAST_MODES.includes(contrastMode)) {
+        logger.error(`❌ Invalid contrast mode: "${options.contrast}". Use ${CONTRAST_MODES.map(mode => `"${mode}"`).join(', ')}.`);
+        process.exit(1); // Exit on validation failure
+    }
+    const minContrast = Number(options.minContrast);
+    if (!Number.isFinite(minContrast) || minContrast < 1 || minContrast > 21) {
+        logger.error(`❌ Invalid minimum contrast: "${options.minContrast}". Use a ratio between 1 and 21 (e.g. ${WCAG_AA_CONTRAST} or ${WCAG_AAA_CONTRAST}).`);
+        process.exit(1); // Exit on validation failure
     }
 
     // --- Parse and Validate Paper Size ---
@@ -114,11 +360,46 @@ async function validateAndPrepareOptions(repoPathArg: string, options: OptionVal
             logger.error(`❌ Invalid custom paper size format: "${paperSizeInput}". Use "width,height" in positive points (e.g., "595.28,841.89").`);
             process.exit(1); // Exit on validation failure
         }
-    } else if (paperSizeInput.toUpperCase() === 'A4' || paperSizeInput.toUpperCase() === 'LETTER') {
-        paperSizeOption = paperSizeInput.toUpperCase() as 'A4' | 'Letter';
-        logger.debug(`Using standard paper size: ${paperSizeOption}`);
     } else {
-        logger.error(`❌ Invalid paper size name: "${paperSizeInput}". Use "A4", "Letter", or "width,height".`);
+        const paperSizeName = PAPER_SIZE_NAMES.find(name => name.toUpperCase() === paperSizeInput.toUpperCase());
+        if (!paperSizeName) {
+            logger.error(`❌ Invalid paper size name: "${paperSizeInput}". Use ${PAPER_SIZE_NAMES.map(name => `"${name}"`).join(', ')}, or "width,height".`);
+            process.exit(1); // Exit on validation failure
+        }
+        paperSizeOption = paperSizeName;
+        logger.debug(`Using standard paper size: ${paperSizeOption}`);
+    }
+
+    // --- Parse and Validate Columns ---
+    const columns = Number(options.columns);
+    if (!Number.isInteger(columns) || columns < 1 || columns > 4) {
+        logger.error(`❌ Invalid column count: "${options.columns}". Must be a whole number between 1 and 4.`);
+        process.exit(1); // Exit on validation failure
+    }
+
+    // --- Parse and Validate Header and Footer ---
+    const headerTemplate = parseTemplateOption(options.header, '--header');
+    const footerTemplate = parseTemplateOption(options.footer, '--footer');
+    const [headerHeight, footerHeight] = [['--header-height', options.headerHeight], ['--footer-height', options.footerHeight]].map(([flag, value]) => {
+        const height = Number(value);
+        if (!Number.isFinite(height) || height < 0 || height > 200) {
+            logger.error(`❌ Invalid ${flag}: "${value}". Must be a number of points between 0 and 200.`);
+            process.exit(1); // Exit on validation failure
+        }
+        return height;
+    });
+
+    // --- Validate Blank Page Mode ---
+    const blankPages = String(options.blankPages).toLowerCase() as BlankPageMode;
+    if (!BLANK_PAGE_MODES.includes(blankPages)) {
+        logger.error(`❌ Invalid blank page mode: "${options.blankPages}". Use ${BLANK_PAGE_MODES.map(mode => `"${mode}"`).join(', ')}.`);
+        process.exit(1); // Exit on validation failure
+    }
+
+    // --- Validate Orientation ---
+    const orientation = String(options.orientation).toLowerCase() as Orientation;
+    if (!ORIENTATIONS.includes(orientation)) {
+        logger.error(`❌ Invalid orientation: "${options.orientation}". Use ${ORIENTATIONS.map(mode => `"${mode}"`).join(', ')}.`);
         process.exit(1); // Exit on validation failure
     }
 
@@ -130,6 +411,112 @@ async function validateAndPrepareOptions(repoPathArg: string, options: OptionVal
         process.exit(1); // Exit on validation failure
     }
 
+    // --- Validate Wrap Mode ---
+    const wrapMode = String(options.wrap).toLowerCase() as WrapMode;
+    if (!WRAP_MODES.includes(wrapMode)) {
+        logger.error(`❌ Invalid wrap mode: "${options.wrap}". Use ${WRAP_MODES.map(mode => `"${mode}"`).join(', ')}.`);
+        process.exit(1); // Exit on validation failure
+    }
+    const minFontSize = Number(options.minFontSize);
+    if (!Number.isFinite(minFontSize) || minFontSize <= 2) {
+        logger.error(`❌ Invalid minimum font size: "${options.minFontSize}". Must be a number greater than 2.`);
+        process.exit(1); // Exit on validation failure
+    }
+    // The minimum only matters when shrinking, so a small --font-size with the default minimum stays valid
+    if (wrapMode === 'shrink' && minFontSize > fontSize) {
+        logger.error(`❌ Invalid minimum font size: "${options.minFontSize}". With --wrap shrink it must be at most the font size (${fontSize}).`);
+        process.exit(1); // Exit on validation failure
+    }
+
+    // --- Parse and Validate Tab Width ---
+    const tabWidth = Number(options.tabWidth);
+    if (!Number.isInteger(tabWidth) || tabWidth < 1 || tabWidth > 16) {
+        logger.error(`❌ Invalid tab width: "${options.tabWidth}". Must be a whole number of columns between 1 and 16.`);
+        process.exit(1); // Exit on validation failure
+    }
+
+    // --- Parse and Validate Diff Mode ---
+    let diffOption: PdfOptions['diff'] = null;
+    if (options.diff) {
+        let contextLines = 0;
+        try {
+            contextLines = parseDiffContext(options.diffContext);
+            diffOption = { ...parseDiffRange(options.diff), contextLines };
+        } catch (error) {
+            logger.error(`❌ ${(error as Error).message}`);
+            process.exit(1); // Exit on validation failure
+        }
+        logger.debug(`Diff mode: base=${diffOption.base}, head=${diffOption.head ?? 'working tree'}, context=${contextLines}`);
+    }
+
+    // --- Parse Language Mapping and Grammars ---
+    // --lang entries are added to (and override) the configuration file's "languages" mapping
+    const languageMap: Record<string, string> = { ...options.languages };
+    for (const entry of options.lang as string[]) {
+        const separator = entry.indexOf('=');
+        const key = entry.substring(0, separator).trim();
+        const language = entry.substring(separator + 1).trim();
+        if (separator === -1 || !key || !language) {
+            logger.error(`❌ Invalid language mapping: "${entry}". Use "ext=language", e.g. "inc=php".`);
+            process.exit(1); // Exit on validation failure
+        }
+        languageMap[key] = language;
+    }
+    const grammars = (options.grammar as string[]).map(value => {
+        const grammarPath = path.resolve(process.cwd(), value);
+        if (!GRAMMAR_FILE_EXTENSIONS.includes(path.extname(grammarPath).toLowerCase())) {
+            logger.error(`❌ Invalid grammar file: "${value}". Use a JavaScript module (${GRAMMAR_FILE_EXTENSIONS.join(', ')}).`);
+            process.exit(1); // Exit on validation failure
+        }
+        if (!fs.existsSync(grammarPath)) {
+            logger.error(`❌ Grammar file not found: ${grammarPath}`);
+            process.exit(1); // Exit on validation failure
+        }
+        return grammarPath;
+    });
+
+    // --- Load Annotations ---
+    // Ranges given with --highlight are added to those of the annotations file
+    const annotations: Annotation[] = [];
+    if (options.annotations) {
+        try {
+            annotations.push(...await loadAnnotationsFile(path.resolve(process.cwd(), options.annotations)));
+        } catch (error) {
+            logger.error(`❌ ${(error as Error).message}`);
+            process.exit(1); // Exit on validation failure
+        }
+    }
+    for (const spec of options.highlight as string[]) {
+        try {
+            annotations.push(parseHighlightSpec(spec));
+        } catch (error) {
+            logger.error(`❌ Invalid --highlight value "${spec}": ${(error as Error).message}.`);
+            process.exit(1); // Exit on validation failure
+        }
+    }
+    const annotationNotes = String(options.annotationNotes).toLowerCase() as AnnotationNoteMode;
+    if (!ANNOTATION_NOTE_MODES.includes(annotationNotes)) {
+        logger.error(`❌ Invalid annotation note mode: "${options.annotationNotes}". Use ${ANNOTATION_NOTE_MODES.map(mode => `"${mode}"`).join(', ')}.`);
+        process.exit(1); // Exit on validation failure
+    }
+
+    // --- Validate Comment Marker Tags ---
+    const todoTags = [...DEFAULT_COMMENT_MARKER_TAGS];
+    for (const tag of options.todoTag as string[]) {
+        if (!COMMENT_MARKER_TAG_PATTERN.test(tag)) {
+            logger.error(`❌ Invalid comment marker tag: "${tag}". Use a word of letters, digits and underscores starting with a letter, e.g. "NOTE".`);
+            process.exit(1); // Exit on validation failure
+        }
+        if (!todoTags.includes(tag)) todoTags.push(tag);
+    }
+
+    // --- Validate Fonts ---
+    const codeFont = resolveFontOption(options.codeFont, '--code-font', true);
+    const textFont = resolveFontOption(options.textFont, '--text-font', true);
+    const codeFontVariants = resolveFontVariants(options, 'code');
+    const textFontVariants = resolveFontVariants(options, 'text');
+    const fallbackFonts = (options.fallbackFont as string[]).map(value => resolveFontOption(value, '--fallback-font', false));
+
     // --- Construct Final Options Object ---
     const pdfOptions: PdfOptions = {
         output: resolvedOutputPath,
@@ -137,15 +524,51 @@ async function validateAndPrepareOptions(repoPathArg: string, options: OptionVal
         fontSize: fontSize,
         // Commander automatically handles boolean flags like --line-numbers / --no-line-numbers
         showLineNumbers: options.lineNumbers,
+        tabWidth,
+        showWhitespace: options.showWhitespace,
+        wrapMode,
+        minFontSize,
         theme: themeName,
+        themesDir,
         paperSize: paperSizeOption,
-        // Define sensible defaults for layout - could be made configurable if needed
-        margins: { top: 50, right: 40, bottom: 50, left: 40 },
-        headerHeight: 25, // Space reserved for header (file path)
-        footerHeight: 25, // Space reserved for footer (page number)
-        tocTitle: "Table of Contents",
-        codeFont: 'Courier', // Standard monospace PDF font (widely available)
-        textFont: 'Helvetica' // Standard sans-serif PDF font (widely available)
+        orientation,
+        columns,
+        packFiles: options.packFiles,
+        duplex: options.duplex,
+        rectoStarts: options.rectoStarts,
+        blankPages,
+        // Layout settings come from the configuration file, with sensible defaults
+        margins: { ...DEFAULT_MARGINS, ...options.margins },
+        headerHeight, // Space reserved for header
+        footerHeight, // Space reserved for footer
+        headerTemplate,
+        footerTemplate,
+        tocTitle: options.tocTitle ?? DEFAULT_TOC_TITLE,
+        annotations,
+        annotationNotes,
+        codeFont, // Standard PDF font name or path to an embedded font file
+        codeFontVariants,
+        textFont,
+        textFontVariants,
+        fallbackFonts,
+        fileFilters: {
+            include: options.include,
+            exclude: options.exclude,
+            unignore: options.unignore,
+        },
+        diff: diffOption,
+        languageMap,
+        grammars,
+        outlineSymbols: options.outlineSymbols,
+        statistics: options.statistics,
+        symbolIndex: options.symbolIndex,
+        importLinks: options.importLinks,
+        todoIndex: options.todoIndex,
+        todoTags,
+        emphasizeTodos: options.emphasizeTodos,
+        printMode,
+        contrastMode,
+        minContrast
     };
 
     // Return validated options and resolved path
@@ -159,11 +582,12 @@ async function validateAndPrepareOptions(repoPathArg: string, options: OptionVal
  * Handles top-level errors and sets the process exit code appropriately.
  * @param repoPathArg The repository path argument provided by the user.
  * @param options The parsed options object from Commander.
+ * @param command The Commander command being executed.
  */
-async function runCliAction(repoPathArg: string, options: OptionValues): Promise<void> {
+async function runCliAction(repoPathArg: string, options: OptionValues, command: Command): Promise<void> {
     try {
         // Validate inputs and prepare the options object needed by the core logic
-        const { resolvedRepoPath, pdfOptions } = await validateAndPrepareOptions(repoPathArg, options);
+        const { resolvedRepoPath, pdfOptions } = await validateAndPrepareOptions(repoPathArg, options, command);
 
         // Execute the main application logic from main.ts
         await run(resolvedRepoPath, pdfOptions);
@@ -180,6 +604,103 @@ async function runCliAction(repoPathArg: string, options: OptionValues): Promise
     }
 }
 
+/**
+ * Formats a color as a terminal swatch (two blank cells with the color as background).
+ * @param color A '#rgb' or '#rrggbb' color.
+ * @returns The ANSI escape sequence drawing the swatch.
+ */
+function colorSwatch(color: string): string {
+    return `${ansiColor(color, 48)}  \x1b[0m`;
+}
+
+/**
+ * Builds the ANSI escape sequence that sets a 24-bit foreground or background color.
+ * @param color A '#rgb' or '#rrggbb' color.
+ * @param target 38 for the foreground color, 48 for the background color.
+ * @returns The escape sequence.
+ */
+function ansiColor(color: string, target: 38 | 48): string {
+    const hex = color.length === 4 ? color.slice(1).split('').map(digit => digit + digit).join('') : color.slice(1);
+    const [r, g, b] = [0, 2, 4].map(offset => parseInt(hex.substring(offset, offset + 2), 16));
+    return `\x1b[${target};2;${r};${g};${b}m`;
+}
+
+/**
+ * The action executed by Commander for `codepdf themes`: lists every available theme with a preview of
+ * its colors (swatches and a highlighted sample line on a color terminal, hex values otherwise).
+ * @param options The parsed options of the subcommand.
+ * @param command The Commander command being executed.
+ */
+async function runThemesAction(options: OptionValues, command: Command): Promise<void> {
+    await applyConfigFile(process.cwd(), options, command);
+    const themesDir = options.themesDir ? path.resolve(process.cwd(), options.themesDir) : null;
+    const useColor = process.stdout.isTTY && !process.env.NO_COLOR;
+
+    for (const listing of await listAvailableThemes(themesDir)) {
+        console.log(`${listing.name}  ${listing.filePath ? `(${listing.filePath})` : '(built-in)'}`);
+        let theme;
+        try {
+            theme = await loadTheme(listing.filePath ?? listing.name, themesDir);
+        } catch (error) {
+            console.log(`    invalid: ${(error as Error).message}`);
+            continue;
+        }
+        const color = (scope: string) => lookupScopeValue(theme.tokenColors, scope);
+        const swatchColors: [string, string | undefined][] = [
+            ['background', theme.backgroundColor], ['text', theme.defaultColor], ['keyword', color('keyword')],
+            ['string', color('string')], ['number', color('number')], ['function', color('title.function')], ['comment', color('comment')],
+        ];
+        if (useColor) {
+            // A short sample line drawn with the theme's own colors on its background
+            const sample: [string, string | undefined][] = [
+                [' function ', color('keyword')], ['greet', color('title.function')], ['(', theme.defaultColor], ['name', color('params')],
+                [') { ', theme.defaultColor], ['return ', color('keyword')], ['"hi "', color('string')], [' + ', color('operator')],
+                ['42', color('number')], ['; } ', theme.defaultColor], ['// wave ', color('comment')],
+            ];
+            const sampleLine = sample.map(([text, color]) => `${ansiColor(color ?? theme.defaultColor, 38)}${text}`).join('');
+            const swatches = swatchColors.map(([, color]) => color ? colorSwatch(color) : '  ').join(' ');
+            console.log(`    ${swatches}   ${ansiColor(theme.backgroundColor, 48)}${sampleLine}\x1b[0m`);
+        } else {
+            console.log(`    ${swatchColors.filter(([, color]) => color).map(([label, color]) => `${label} ${color}`).join(', ')}`);
+        }
+        const issues = findContrastIssues(theme, WCAG_AA_CONTRAST);
+        if (issues.length > 0) {
+            console.log(`    low contrast (below ${WCAG_AA_CONTRAST}:1): ${issues.map(issue => `${issue.key} ${issue.ratio.toFixed(2)}:1`).join(', ')}`);
+        }
+    }
+}
+
+/**
+ * The action executed by Commander for `codepdf theme import <file>`: converts the theme and writes it
+ * to the output file (or standard output), warning about scopes that had no equivalent.
+ * @param file The theme file to convert.
+ * @param options The parsed options of the subcommand.
+ */
+async function runThemeImportAction(file: string, options: OptionValues): Promise<void> {
+    const inputPath = path.resolve(process.cwd(), file);
+    let result;
+    try {
+        result = await importThemeFile(inputPath);
+    } catch (error) {
+        logger.error(`❌ ${(error as Error).message}`);
+        process.exit(1); // Exit on conversion failure
+    }
+
+    const name = options.name ?? path.basename(inputPath, path.extname(inputPath));
+    const json = JSON.stringify({ name, ...result.theme }, null, 2) + '\n';
+    if (options.output) {
+        const outputPath = path.resolve(process.cwd(), options.output);
+        await fs.outputFile(outputPath, json);
+        logger.success(`Theme "${name}" written to ${outputPath} (use it with --theme ${options.output}).`);
+    } else {
+        process.stdout.write(json);
+    }
+    if (result.unmappedScopes.length > 0) {
+        // Warnings go to standard error, so they do not end up in redirected output
+        logger.warn(`${result.unmappedScopes.length} scope(s) have no equivalent and were skipped: ${result.unmappedScopes.join(', ')}`);
+    }
+}
+
 // --- Execute CLI ---
 /**
  * Entry point check: Only run the CLI setup and parsing logic
@@ -0,0 +1,62 @@
+import { CommentMarker, HighlightedToken } from './utils/types';
+
+/** The comment markers collected by default; `--todo-tag` adds more. */
+export const DEFAULT_COMMENT_MARKER_TAGS = ['TODO', 'FIXME', 'HACK', 'XXX'];
+
+/** Accepted tag names: a letter followed by letters, digits or underscores (e.g. "NOTE", "PERF"). */
+export const COMMENT_MARKER_TAG_PATTERN = /^[A-Za-z]\w*$/;
+
+/** Punctuation that separates a tag from its text ("TODO: ...", "FIXME - ..."). */
+const LEADING_SEPARATOR = /^\s*[:\-]?\s*/;
+
+/** Comment delimiters and whitespace left at the end of a marker's text ("*\/", "-->", "*)", "-}"). */
+const TRAILING_DELIMITER = /\s*(?:\*\/|-->|\*\)|-\})?\s*$/;
+
+/** Finds the comment markers on a line from its highlighted tokens. */
+export type CommentMarkerMatcher = (tokens: HighlightedToken[]) => CommentMarker[];
+
+/**
+ * Creates a function that finds comment markers such as `TODO` or `FIXME` in the comment tokens of a line.
+ * Tags match whole words and are case-sensitive, so "todos" or "TODOS" in prose are not collected.
+ * @param tags The tags to look for.
+ * @returns The matching function (finding nothing if no tags are given).
+ */
+export function createCommentMarkerMatcher(tags: string[]): CommentMarkerMatcher {
+    if (tags.length === 0) {
+        return () => [];
+    }
+    const pattern = new RegExp(`\\b(?:${tags.join('|')})\\b`, 'g');
+    return tokens => {
+        // Adjacent comment tokens (e.g. a comment and a doc tag inside it) form one comment
+        const comments: string[] = [];
+        let current = '';
+        for (const token of tokens) {
+            if (token.comment) {
+                current += token.text;
+            } else if (current) {
+                comments.push(current);
+                current = '';
+            }
+        }
+        if (current) comments.push(current);
+
+        const markers: CommentMarker[] = [];
+        for (const comment of comments) {
+            const matches: RegExpExecArray[] = [];
+            pattern.lastIndex = 0;
+            let match: RegExpExecArray | null;
+            while ((match = pattern.exec(comment)) !== null) {
+                matches.push(match);
+            }
+            // A marker's text runs up to the next marker in the same comment
+            matches.forEach((tagMatch, index) => {
+                const textEnd = index + 1 < matches.length ? matches[index + 1].index : comment.length;
+                const text = comment.substring(tagMatch.index + tagMatch[0].length, textEnd)
+                    .replace(LEADING_SEPARATOR, '')
+                    .replace(TRAILING_DELIMITER, '');
+                markers.push({ tag: tagMatch[0], text });
+            });
+        }
+        return markers;
+    };
+}
@@ -0,0 +1,276 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { CodepdfConfig } from './utils/types';
+import { isEmbeddableFontFile } from './utils/fonts';
+import { isThemeFile } from './theme-loader';
+import { parseDiffContext } from './git-diff';
+import { logger } from './utils/logger';
+
+/**
+ * Names of the configuration files looked up in the root of the target repository, in order of preference.
+ * All of them contain JSON.
+ */
+export const CONFIG_FILE_NAMES = ['.codepdfrc', '.codepdfrc.json', 'codepdf.config.json'];
+
+/** The kinds of values a configuration key can hold. */
+type ConfigValueKind = 'string' | 'number' | 'boolean' | 'string[]' | 'stringMap' | 'paperSize' | 'margins' | 'diffContext';
+
+/**
+ * The keys accepted in a configuration file (and inside each profile) with the kind of value each expects.
+ */
+const CONFIG_SCHEMA: Record<keyof Omit<CodepdfConfig, 'profiles'>, ConfigValueKind> = {
+    output: 'string',
+    title: 'string',
+    fontSize: 'number',
+    theme: 'string',
+    themesDir: 'string',
+    printMode: 'string',
+    contrast: 'string',
+    minContrast: 'number',
+    lineNumbers: 'boolean',
+    tabWidth: 'number',
+    showWhitespace: 'boolean',
+    wrap: 'string',
+    minFontSize: 'number',
+    paperSize: 'paperSize',
+    orientation: 'string',
+    columns: 'number',
+    packFiles: 'boolean',
+    duplex: 'boolean',
+    rectoStarts: 'boolean',
+    blankPages: 'string',
+    margins: 'margins',
+    headerHeight: 'number',
+    footerHeight: 'number',
+    header: 'string',
+    footer: 'string',
+    tocTitle: 'string',
+    annotations: 'string',
+    highlights: 'string[]',
+    annotationNotes: 'string',
+    codeFont: 'string',
+    codeFontBold: 'string',
+    codeFontItalic: 'string',
+    codeFontBoldItalic: 'string',
+    textFont: 'string',
+    textFontBold: 'string',
+    textFontItalic: 'string',
+    textFontBoldItalic: 'string',
+    fallbackFonts: 'string[]',
+    outlineSymbols: 'boolean',
+    statistics: 'boolean',
+    symbolIndex: 'boolean',
+    importLinks: 'boolean',
+    todoIndex: 'boolean',
+    todoTags: 'string[]',
+    emphasizeTodos: 'boolean',
+    include: 'string[]',
+    exclude: 'string[]',
+    unignore: 'string[]',
+    diffContext: 'diffContext',
+    languages: 'stringMap',
+    grammars: 'string[]',
+    verbose: 'boolean',
+};
+
+/** Keys holding font settings, which are resolved relative to the config file when they name a font file. */
+const FONT_KEYS: (keyof CodepdfConfig)[] = [
+    'codeFont', 'codeFontBold', 'codeFontItalic', 'codeFontBoldItalic',
+    'textFont', 'textFontBold', 'textFontItalic', 'textFontBoldItalic',
+];
+
+/** The edges accepted inside the `margins` object. */
+const MARGIN_EDGES = ['top', 'right', 'bottom', 'left'];
+
+/**
+ * Checks a single configuration value against the kind its key expects.
+ * @param value The value read from the file.
+ * @param kind The expected kind of value.
+ * @returns A description of the problem, or null if the value is valid.
+ */
+function checkValue(value: unknown, kind: ConfigValueKind): string | null {
+    switch (kind) {
+        case 'string':
+            return typeof value === 'string' ? null : 'must be a string';
+        case 'number':
+            return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? null : 'must be a non-negative number';
+        case 'boolean':
+            return typeof value === 'boolean' ? null : 'must be true or false';
+        case 'string[]':
+            return Array.isArray(value) && value.every(item => typeof item === 'string') ? null : 'must be an array of strings';
+        case 'stringMap':
+            return typeof value === 'object' && value !== null && !Array.isArray(value) && Object.values(value).every(item => typeof item === 'string')
+                ? null
+                : 'must be an object mapping names to strings';
+        case 'paperSize':
+            if (typeof value === 'string') return null; // Names are checked together with the CLI value
+            return Array.isArray(value) && value.length === 2 && value.every(item => typeof item === 'number' && item > 0)
+                ? null
+                : 'must be a paper size name or [width, height] in positive points';
+        case 'diffContext': {
+            const problem = 'must be a non-negative whole number of lines or "all"';
+            if (typeof value !== 'number' && value !== 'all') return problem;
+            try {
+                parseDiffContext(value); // Same rules as --diff-context
+                return null;
+            } catch {
+                return problem;
+            }
+        }
+        case 'margins': {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                return `must be an object with any of ${MARGIN_EDGES.join(', ')}`;
+            }
+            for (const [edge, amount] of Object.entries(value)) {
+                if (!MARGIN_EDGES.includes(edge)) {
+                    return `has unknown edge "${edge}" (allowed: ${MARGIN_EDGES.join(', ')})`;
+                }
+                if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0) {
+                    return `.${edge} must be a non-negative number`;
+                }
+            }
+            return null;
+        }
+    }
+}
+
+/**
+ * Validates a set of configuration values (the top level of the file or a single profile).
+ * @param values The parsed values.
+ * @param location Where the values come from, used in error messages (e.g. 'codepdf.config.json' or 'profile "review"').
+ * @throws An error describing every invalid or unknown key.
+ */
+function validateConfigValues(values: Record<string, unknown>, location: string): void {
+    const problems: string[] = [];
+    for (const [key, value] of Object.entries(values)) {
+        const kind = CONFIG_SCHEMA[key as keyof typeof CONFIG_SCHEMA];
+        if (!kind) {
+            problems.push(`unknown option "${key}"`);
+            continue;
+        }
+        const problem = checkValue(value, kind);
+        if (problem) {
+            problems.push(`"${key}" ${problem}`);
+        }
+    }
+    if (problems.length > 0) {
+        throw new Error(`Invalid configuration in ${location}: ${problems.join('; ')}. Allowed options: ${Object.keys(CONFIG_SCHEMA).join(', ')}.`);
+    }
+}
+
+/**
+ * Resolves the path-valued settings of a set of configuration values against the config file directory.
+ * @param values The validated values (modified in place).
+ * @param baseDir The directory containing the configuration file.
+ */
+function resolveConfigPaths(values: CodepdfConfig, baseDir: string): void {
+    if (values.output) {
+        values.output = path.resolve(baseDir, values.output);
+    }
+    if (values.themesDir) {
+        values.themesDir = path.resolve(baseDir, values.themesDir);
+    }
+    // Theme names (e.g. 'dark') are left untouched
+    if (values.theme && isThemeFile(values.theme)) {
+        values.theme = path.resolve(baseDir, values.theme);
+    }
+    for (const key of FONT_KEYS) {
+        const value = values[key];
+        // Standard font names (e.g. 'Courier') are left untouched
+        if (typeof value === 'string' && isEmbeddableFontFile(value)) {
+            (values as Record<string, unknown>)[key] = path.resolve(baseDir, value);
+        }
+    }
+    if (values.fallbackFonts) {
+        values.fallbackFonts = values.fallbackFonts.map(fontPath => path.resolve(baseDir, fontPath));
+    }
+    if (values.annotations) {
+        values.annotations = path.resolve(baseDir, values.annotations);
+    }
+    if (values.grammars) {
+        values.grammars = values.grammars.map(grammarPath => path.resolve(baseDir, grammarPath));
+    }
+}
+
+/**
+ * Looks for a configuration file in the root of the target repository.
+ * @param repoPath The absolute path to the repository root.
+ * @returns The absolute path of the first configuration file found, or null if there is none.
+ */
+export async function findConfigFile(repoPath: string): Promise<string | null> {
+    for (const fileName of CONFIG_FILE_NAMES) {
+        const candidate = path.join(repoPath, fileName);
+        if (await fs.pathExists(candidate)) {
+            return candidate;
+        }
+    }
+    return null;
+}
+
+/**
+ * Reads, parses and validates a configuration file, including all of its profiles.
+ * Relative paths in the file are resolved against the file's directory.
+ * @param configPath The absolute path to the configuration file.
+ * @returns The validated configuration.
+ * @throws An error with a descriptive message if the file cannot be read, is not valid JSON, or contains invalid settings.
+ */
+export async function loadConfigFile(configPath: string): Promise<CodepdfConfig> {
+    const fileName = path.basename(configPath);
+    let parsed: unknown;
+    try {
+        const content = await fs.readFile(configPath, 'utf-8');
+        parsed = JSON.parse(content);
+    } catch (error) {
+        throw new Error(`Could not read configuration file ${configPath}: ${(error as Error).message}`);
+    }
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new Error(`Invalid configuration in ${fileName}: the file must contain a JSON object.`);
+    }
+
+    const { profiles, ...baseValues } = parsed as Record<string, unknown>;
+    validateConfigValues(baseValues, fileName);
+    const config = baseValues as CodepdfConfig;
+    resolveConfigPaths(config, path.dirname(configPath));
+
+    if (profiles !== undefined) {
+        if (typeof profiles !== 'object' || profiles === null || Array.isArray(profiles)) {
+            throw new Error(`Invalid configuration in ${fileName}: "profiles" must be an object mapping profile names to settings.`);
+        }
+        config.profiles = {};
+        for (const [name, values] of Object.entries(profiles)) {
+            if (typeof values !== 'object' || values === null || Array.isArray(values)) {
+                throw new Error(`Invalid configuration in ${fileName}: profile "${name}" must be an object.`);
+            }
+            validateConfigValues(values as Record<string, unknown>, `${fileName}, profile "${name}"`);
+            const profile = values as CodepdfConfig;
+            resolveConfigPaths(profile, path.dirname(configPath));
+            config.profiles[name] = profile;
+        }
+    }
+
+    logger.debug(`Loaded configuration from ${configPath}${config.profiles ? ` (profiles: ${Object.keys(config.profiles).join(', ')})` : ''}.`);
+    return config;
+}
+
+/**
+ * Applies a named profile on top of the base configuration.
+ * @param config The loaded configuration.
+ * @param profileName The profile to apply, or undefined to use the base configuration only.
+ * @returns The effective settings, without the `profiles` section.
+ * @throws An error if the profile does not exist.
+ */
+export function applyConfigProfile(config: CodepdfConfig, profileName?: string): Omit<CodepdfConfig, 'profiles'> {
+    const { profiles, ...base } = config;
+    if (!profileName) {
+        return base;
+    }
+    const profile = profiles?.[profileName];
+    if (!profile) {
+        const available = Object.keys(profiles ?? {});
+        throw new Error(`Unknown profile "${profileName}". ${available.length > 0 ? `Available profiles: ${available.join(', ')}.` : 'The configuration file defines no profiles.'}`);
+    }
+    // Margins are merged edge by edge (and language mappings entry by entry) so a profile can override a single one
+    const margins = (base.margins || profile.margins) ? { ...base.margins, ...profile.margins } : undefined;
+    const languages = (base.languages || profile.languages) ? { ...base.languages, ...profile.languages } : undefined;
+    return { ...base, ...profile, ...(margins ? { margins } : {}), ...(languages ? { languages } : {}) };
+}
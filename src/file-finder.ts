@@ -3,7 +3,8 @@ import fs from 'fs-extra'; // Using fs-extra for convenience like pathExists, re
 import { glob } from 'glob';
 import ignore, { Ignore } from 'ignore'; // Note: 'ignore' package includes its own types
 import { logger } from './utils/logger';
-import { FileInfo } from './utils/types';
+import { detectLanguage } from './language-detector';
+import { FileFilterOptions, FileInfo } from './utils/types';
 
 /**
  * Set of common binary file extensions to exclude from processing.
@@ -82,6 +83,38 @@ const ALWAYS_IGNORE = [
     '**/report*/**', // Common report directories
 ];
 
+/** Name of the codepdf-specific ignore file (gitignore syntax), honoured like nested .gitignore files. */
+const CODEPDF_IGNORE_FILE = '.codepdfignore';
+
+/**
+ * Removes directories the user explicitly wants to include from the always-ignore list.
+ * An entry such as 'vendor' or 'vendor/' removes the always-ignore pattern for that directory name.
+ * @param unignore Directory names to un-ignore.
+ * @returns The effective list of always-ignored patterns.
+ */
+function getEffectiveAlwaysIgnore(unignore: string[]): string[] {
+    if (unignore.length === 0) {
+        return ALWAYS_IGNORE;
+    }
+    const names = unignore.map(entry => entry.trim().replace(/\\/g, '/').replace(/^(\*\*\/)+/, '').replace(/(\/\*\*)?\/*$/, ''));
+    const removedNames = new Set<string>();
+    const effective = ALWAYS_IGNORE.filter(pattern => {
+        const name = names.find(candidate => pattern === `**/${candidate}/**` || pattern === `**/${candidate}`);
+        if (name) {
+            removedNames.add(name);
+            return false;
+        }
+        return true;
+    });
+    names.filter(name => !removedNames.has(name)).forEach(name => {
+        logger.warn(`"${name}" is not in the always-ignore list; nothing to un-ignore.`);
+    });
+    if (removedNames.size > 0) {
+        logger.info(`Un-ignoring normally skipped directories: ${Array.from(removedNames).join(', ')}`);
+    }
+    return effective;
+}
+
 /**
  * Checks if file content appears to be binary.
  * This is a heuristic based on the presence of null bytes, which are uncommon in UTF-8 text files.
@@ -95,22 +128,24 @@ function isLikelyBinary(content: string): boolean {
 }
 
 /**
- * Asynchronously reads and parses all relevant .gitignore files within a repository path.
- * Handles nested .gitignore files and correctly interprets paths relative to their location.
+ * Asynchronously reads and parses all ignore files with the given name (e.g. .gitignore, .codepdfignore)
+ * within a repository path. Handles nested ignore files and correctly interprets paths relative to their location.
  * @param repoPath The absolute path to the repository root.
  * @param ig The `ignore` instance to add the loaded rules to.
+ * @param alwaysIgnore The always-ignored patterns, skipped while searching for ignore files.
+ * @param ignoreFileName The name of the ignore files to load (defaults to '.gitignore').
  */
-async function loadGitignoreRules(repoPath: string, ig: Ignore): Promise<void> {
-    // Find all .gitignore files, excluding globally ignored directories for efficiency
-    const gitignoreFiles = await glob('**/.gitignore', {
+async function loadGitignoreRules(repoPath: string, ig: Ignore, alwaysIgnore: string[], ignoreFileName = '.gitignore'): Promise<void> {
+    // Find all ignore files, excluding globally ignored directories for efficiency
+    const gitignoreFiles = await glob(`**/${ignoreFileName}`, {
         cwd: repoPath,
         absolute: true,
         dot: true,
-        ignore: ALWAYS_IGNORE,
+        ignore: alwaysIgnore,
         follow: false, // Do not follow symlinks
     });
 
-    logger.debug(`Found ${gitignoreFiles.length} .gitignore files to process.`);
+    logger.debug(`Found ${gitignoreFiles.length} ${ignoreFileName} files to process.`);
 
     // Process each found .gitignore file
     for (const gitignorePath of gitignoreFiles) {
@@ -153,20 +188,29 @@ async function loadGitignoreRules(repoPath: string, ig: Ignore): Promise<void> {
             }
         } catch (error) {
             // Log errors reading/parsing specific gitignore files but continue processing others
-            logger.warn(`Failed to read or parse .gitignore file ${gitignorePath}: ${(error as Error).message}`);
+            logger.warn(`Failed to read or parse ${ignoreFileName} file ${gitignorePath}: ${(error as Error).message}`);
         }
     }
 }
 
 /**
  * Finds relevant code files within a given repository path.
- * It respects .gitignore rules, filters out binary files, skips overly large files,
- * and ignores common non-code directories/files.
+ * It respects .gitignore and .codepdfignore rules, applies the include/exclude filters,
+ * filters out binary files, skips overly large files, and ignores common non-code directories/files.
  * @param repoPath The absolute path to the repository root directory.
+ * @param filters Include/exclude patterns and directories to un-ignore.
+ * @param onlyPaths Optional set of relative paths to restrict the scan to (e.g. the files changed in diff mode).
+ * @param readMissing Optional reader for paths of `onlyPaths` that are not in the directory (e.g. reading them from a
+ *   git revision); it returns the content, or null if the file cannot be read. Without it, such paths are skipped with a warning.
  * @returns A promise resolving to an array of FileInfo objects for included files, sorted alphabetically.
  * @throws An error if the initial path cannot be accessed or is not a directory.
  */
-export async function findCodeFiles(repoPath: string): Promise<FileInfo[]> {
+export async function findCodeFiles(
+    repoPath: string,
+    filters: FileFilterOptions = { include: [], exclude: [], unignore: [] },
+    onlyPaths?: Set<string>,
+    readMissing?: (relativePath: string) => Promise<string | null>
+): Promise<FileInfo[]> {
     logger.info(`Scanning directory: ${repoPath}`);
 
     // --- 1. Validate repoPath ---
@@ -183,9 +227,19 @@ export async function findCodeFiles(repoPath: string): Promise<FileInfo[]> {
     }
 
     // --- 2. Initialize ignore instance and load rules ---
+    // Later rules win, so a .codepdfignore can re-include ('!pattern') what a .gitignore excludes,
+    // and --exclude patterns override everything.
+    const alwaysIgnore = getEffectiveAlwaysIgnore(filters.unignore);
     const ig = ignore();
-    ig.add(ALWAYS_IGNORE); // Add global ignores first
-    await loadGitignoreRules(repoPath, ig); // Load all .gitignore rules
+    ig.add(alwaysIgnore); // Add global ignores first
+    await loadGitignoreRules(repoPath, ig, alwaysIgnore); // Load all .gitignore rules
+    await loadGitignoreRules(repoPath, ig, alwaysIgnore, CODEPDF_IGNORE_FILE); // Load all .codepdfignore rules
+    if (filters.exclude.length > 0) {
+        ig.add(filters.exclude);
+        logger.debug(`Added ${filters.exclude.length} exclude patterns.`);
+    }
+    // Include patterns are matched with the same gitignore syntax: a file is kept if any pattern "ignores" it
+    const includeMatcher = filters.include.length > 0 ? ignore().add(filters.include) : null;
 
     // --- 3. Find all potential files using glob ---
     // Use stat:true to get file size efficiently during globbing
@@ -195,7 +249,8 @@ export async function findCodeFiles(repoPath: string): Promise<FileInfo[]> {
         nodir: true, // Only files
         dot: true, // Include dotfiles
         follow: false, // Don't follow symlinks
-        ignore: ['**/node_modules/**', '**/.git/**'], // Basic ignore for glob performance; main filtering is below
+        // Basic ignore for glob performance (unless un-ignored); main filtering is below
+        ignore: ['**/node_modules/**', '**/.git/**'].filter(pattern => alwaysIgnore.includes(pattern)),
         stat: true, // Request stats object for size check
         withFileTypes: false, // Paths are sufficient with absolute:true and nodir:true
     });
@@ -206,7 +261,44 @@ export async function findCodeFiles(repoPath: string): Promise<FileInfo[]> {
     const includedFiles: FileInfo[] = [];
     const fileSizeLimit = 10 * 1024 * 1024; // 10 MB limit (configurable?)
 
+    /** Applies the ignore rules, include patterns and binary extensions; returns the file's extension, or null if it is skipped. */
+    const checkPath = (relativePath: string): string | null => {
+        // a) Skip if ignored by .gitignore or global rules
+        if (ig.ignores(relativePath)) {
+            logger.debug(`Ignoring (gitignore/codepdfignore/exclude/always): ${relativePath}`);
+            return null;
+        }
+        if (includeMatcher && !includeMatcher.ignores(relativePath)) {
+            logger.debug(`Ignoring (not matched by --include): ${relativePath}`);
+            return null;
+        }
+
+        // b) Skip binary files based on extension
+        const extension = path.extname(relativePath).substring(1).toLowerCase();
+        if (BINARY_EXTENSIONS.has(extension)) {
+            logger.debug(`Ignoring (binary extension): ${relativePath}`);
+            return null;
+        }
+        return extension;
+    };
+
+    /** Skips overly large and empty files; returns true if the file is kept. */
+    const checkSize = (relativePath: string, size: number): boolean => {
+        // d) Skip overly large files
+        if (size > fileSizeLimit) {
+            logger.warn(`Ignoring (large file > ${fileSizeLimit / 1024 / 1024}MB): ${relativePath}`);
+            return false;
+        }
+        // e) Skip empty files
+        if (size === 0) {
+            logger.debug(`Ignoring (empty file): ${relativePath}`);
+            return false;
+        }
+        return true;
+    };
+
     // Process files potentially in parallel
+    const foundPaths = new Set<string>();
     await Promise.all(allFilePaths.map(async (globResult) => {
         // The result from glob with stat:true is an object with a path property
         // However, type definitions might be simpler; cast or check type if needed.
@@ -214,18 +306,14 @@ export async function findCodeFiles(repoPath: string): Promise<FileInfo[]> {
         // Let's assume globResult is the path string here for clarity. Adjust if types differ.
         const absolutePath = globResult as string; // Adjust based on actual glob return type with stat:true
         const relativePath = path.relative(repoPath, absolutePath).replace(/\\/g, '/'); // Ensure forward slashes
+        foundPaths.add(relativePath);
 
         // --- Filtering Logic ---
-        // a) Skip if ignored by .gitignore or global rules
-        if (ig.ignores(relativePath)) {
-            logger.debug(`Ignoring (gitignore/always): ${relativePath}`);
-            return;
+        if (onlyPaths && !onlyPaths.has(relativePath)) {
+            return; // Not part of the requested subset (no log: this is the common case in diff mode)
         }
-
-        // b) Skip binary files based on extension
-        const extension = path.extname(absolutePath).substring(1).toLowerCase();
-        if (BINARY_EXTENSIONS.has(extension)) {
-            logger.debug(`Ignoring (binary extension): ${relativePath}`);
+        const extension = checkPath(relativePath);
+        if (extension === null) {
             return;
         }
 
@@ -233,17 +321,9 @@ export async function findCodeFiles(repoPath: string): Promise<FileInfo[]> {
         try {
             // Get stats (might be redundant if glob provides reliable stats)
             const stats = await fs.stat(absolutePath);
-
-            // d) Skip overly large files
-             if (stats.size > fileSizeLimit) {
-                 logger.warn(`Ignoring (large file > ${fileSizeLimit / 1024 / 1024}MB): ${relativePath}`);
-                 return;
-             }
-             // e) Skip empty files
-             if (stats.size === 0) {
-                 logger.debug(`Ignoring (empty file): ${relativePath}`);
-                 return;
-             }
+            if (!checkSize(relativePath, stats.size)) {
+                return;
+            }
 
             // f) Read content and check for binary markers
             const content = await fs.readFile(absolutePath, 'utf-8');
@@ -259,7 +339,7 @@ export async function findCodeFiles(repoPath: string): Promise<FileInfo[]> {
                 relativePath,
                 content,
                 extension,
-                language: '', // Language detection is done later
+                language: detectLanguage(relativePath, content),
             });
         } catch (error) {
             // Catch errors during stat or readFile (permissions, non-UTF8, etc.)
@@ -267,6 +347,36 @@ export async function findCodeFiles(repoPath: string): Promise<FileInfo[]> {
         }
     })); // End Promise.all map
 
+    // Requested paths missing from the directory (e.g. renamed or deleted after the diff's head revision)
+    // are read with readMissing, if given, and go through the same checks
+    const missingPaths = onlyPaths ? [...onlyPaths].filter(relativePath => !foundPaths.has(relativePath)).sort() : [];
+    const unreadablePaths: string[] = [];
+    for (const relativePath of missingPaths) {
+        const extension = checkPath(relativePath);
+        if (extension === null) continue;
+        const content = readMissing ? await readMissing(relativePath) : null;
+        if (content === null) {
+            unreadablePaths.push(relativePath);
+            continue;
+        }
+        if (!checkSize(relativePath, Buffer.byteLength(content, 'utf-8'))) continue;
+        if (isLikelyBinary(content)) {
+            logger.debug(`Ignoring (likely binary content): ${relativePath}`);
+            continue;
+        }
+        logger.debug(`Reading ${relativePath} from git (not found in ${repoPath}).`);
+        includedFiles.push({
+            absolutePath: path.join(repoPath, relativePath),
+            relativePath,
+            content,
+            extension,
+            language: detectLanguage(relativePath, content),
+        });
+    }
+    if (unreadablePaths.length > 0) {
+        logger.warn(`Skipping ${unreadablePaths.length} requested file(s) not found in ${repoPath}: ${unreadablePaths.join(', ')}`);
+    }
+
     // --- 5. Sort results and return ---
     // Sort alphabetically by relative path for consistent PDF output order
     includedFiles.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
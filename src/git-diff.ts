@@ -0,0 +1,218 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { DiffOptions, HighlightedLine, RevisionInfo } from './utils/types';
+import { logger } from './utils/logger';
+
+const execFileAsync = promisify(execFile);
+
+/** Upper bound for the output of a single git command (large diffs of generated files can be big). */
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+
+/**
+ * A single hunk of a zero-context unified diff.
+ */
+export interface DiffHunk {
+    /** First line (1-based) of the hunk in the base revision. */
+    oldStart: number;
+    /** Number of lines removed from the base revision. */
+    oldCount: number;
+    /** First line (1-based) of the hunk in the head revision (the line *after which* lines were removed if `newCount` is 0). */
+    newStart: number;
+    /** Number of lines added in the head revision. */
+    newCount: number;
+}
+
+/**
+ * Runs a git command in the given directory and returns its standard output.
+ * @param cwd The directory to run git in (paths are interpreted relative to it).
+ * @param args The git arguments.
+ * @returns The command's standard output.
+ * @throws An error with git's message if git is missing or the command fails.
+ */
+async function runGit(cwd: string, args: string[]): Promise<string> {
+    try {
+        const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: GIT_MAX_BUFFER, encoding: 'utf-8' });
+        return stdout;
+    } catch (error) {
+        const gitError = error as NodeJS.ErrnoException & { stderr?: string };
+        if (gitError.code === 'ENOENT') {
+            throw new Error('Diff mode requires the "git" executable, but it was not found on the PATH.');
+        }
+        const reason = gitError.stderr?.trim() || gitError.message;
+        throw new Error(`git ${args[0]} failed: ${reason}`);
+    }
+}
+
+/**
+ * Returns the revision arguments to pass to `git diff` for the configured range.
+ * Without a head revision the base is compared against the working tree.
+ * @param diff The diff options.
+ * @returns The revision arguments.
+ */
+function getRevisionArgs(diff: DiffOptions): string[] {
+    return diff.head ? [diff.base, diff.head] : [diff.base];
+}
+
+/**
+ * Parses a diff range given on the command line.
+ * Accepts `<base>..<head>`, `<base>..` and `<base>` (the last two compare against the working tree).
+ * @param spec The range specification.
+ * @returns The base and (optional) head revisions.
+ * @throws An error if the specification is empty or malformed.
+ */
+export function parseDiffRange(spec: string): Pick<DiffOptions, 'base' | 'head'> {
+    const trimmed = spec.trim();
+    if (trimmed.includes('...')) {
+        throw new Error(`Invalid diff range "${spec}": use "<base>..<head>" (three-dot ranges are not supported).`);
+    }
+    const [base, head, ...rest] = trimmed.split('..');
+    if (!base || rest.length > 0) {
+        throw new Error(`Invalid diff range "${spec}": use "<base>..<head>", "<base>.." or "<base>".`);
+    }
+    return { base, head: head || null };
+}
+
+/**
+ * Parses the number of unchanged lines kept around each change, from the command line or the configuration file.
+ * @param value A non-negative whole number of lines, or "all" to keep whole files.
+ * @returns The number of lines (infinite for "all").
+ * @throws An error if the value is neither.
+ */
+export function parseDiffContext(value: string | number): number {
+    const input = String(value).trim();
+    const contextLines = input.toLowerCase() === 'all' ? Number.POSITIVE_INFINITY : Number(input);
+    if (input === '' || (!Number.isInteger(contextLines) && contextLines !== Number.POSITIVE_INFINITY) || contextLines < 0) {
+        throw new Error(`Invalid diff context: "${input}". Use a non-negative number of lines or "all".`);
+    }
+    return contextLines;
+}
+
+/**
+ * Lists the files that changed between the two revisions, relative to the scanned directory.
+ * Deleted files are reported separately since there is nothing left to print for them.
+ * @param repoPath The absolute path to the scanned directory (inside a git work tree).
+ * @param diff The diff options.
+ * @returns The changed (added or modified) paths and the deleted paths, with forward slashes.
+ * @throws An error if git fails (e.g. not a repository or unknown revision).
+ */
+export async function getChangedFiles(repoPath: string, diff: DiffOptions): Promise<{ changed: string[]; deleted: string[] }> {
+    const output = await runGit(repoPath, [
+        'diff', '--name-status', '--no-renames', '--relative', '-z', ...getRevisionArgs(diff), '--',
+    ]);
+    // -z output alternates status and path, separated by NUL characters
+    const fields = output.split('\0').filter(Boolean);
+    const changed: string[] = [];
+    const deleted: string[] = [];
+    for (let i = 0; i + 1 < fields.length; i += 2) {
+        const status = fields[i];
+        const filePath = fields[i + 1].replace(/\\/g, '/');
+        (status.startsWith('D') ? deleted : changed).push(filePath);
+    }
+    logger.debug(`git diff ${getRevisionArgs(diff).join(' ')}: ${changed.length} changed, ${deleted.length} deleted files.`);
+    return { changed, deleted };
+}
+
+/**
+ * Reads a file's content at a given revision.
+ * @param repoPath The absolute path to the scanned directory.
+ * @param revision The revision to read from.
+ * @param relativePath The file path relative to the scanned directory.
+ * @returns The file content, or null if the file does not exist at that revision.
+ */
+export async function readFileAtRevision(repoPath: string, revision: string, relativePath: string): Promise<string | null> {
+    try {
+        // './' makes git interpret the path relative to the current directory instead of the repository root
+        return await runGit(repoPath, ['show', `${revision}:./${relativePath}`]);
+    } catch (error) {
+        logger.debug(`${relativePath} does not exist at ${revision}: ${(error as Error).message}`);
+        return null;
+    }
+}
+
+/**
+ * Looks up the checked-out commit and branch of the scanned directory.
+ * Never fails: values that cannot be determined (no git, not a repository, detached HEAD) are null.
+ * @param repoPath The absolute path to the scanned directory.
+ * @returns The abbreviated commit hash and the branch name.
+ */
+export async function getRevisionInfo(repoPath: string): Promise<RevisionInfo> {
+    const readValue = async (args: string[]): Promise<string | null> => {
+        try {
+            return (await runGit(repoPath, args)).trim() || null;
+        } catch (error) {
+            logger.debug(`Could not read git revision information: ${(error as Error).message}`);
+            return null;
+        }
+    };
+    return {
+        commit: await readValue(['rev-parse', '--short', 'HEAD']),
+        // Fails for a detached HEAD, which has no branch
+        branch: await readValue(['symbolic-ref', '--short', '-q', 'HEAD']),
+    };
+}
+
+/**
+ * Computes the zero-context diff hunks of a single file between the two revisions.
+ * @param repoPath The absolute path to the scanned directory.
+ * @param diff The diff options.
+ * @param relativePath The file path relative to the scanned directory.
+ * @returns The hunks, in file order.
+ * @throws An error if git fails.
+ */
+export async function getFileHunks(repoPath: string, diff: DiffOptions, relativePath: string): Promise<DiffHunk[]> {
+    const output = await runGit(repoPath, [
+        'diff', '--no-color', '--no-ext-diff', '--unified=0', '--no-renames', '--relative', ...getRevisionArgs(diff), '--', relativePath,
+    ]);
+    const hunks: DiffHunk[] = [];
+    const hunkHeader = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+    for (const line of output.split('\n')) {
+        const match = line.match(hunkHeader);
+        if (match) {
+            hunks.push({
+                oldStart: Number(match[1]),
+                oldCount: match[2] === undefined ? 1 : Number(match[2]),
+                newStart: Number(match[3]),
+                newCount: match[4] === undefined ? 1 : Number(match[4]),
+            });
+        }
+    }
+    return hunks;
+}
+
+/**
+ * Merges the highlighted lines of both revisions into a single list for rendering:
+ * every head line is marked 'added' or 'context', and removed base lines are interleaved
+ * (marked 'removed', keeping their base line numbers) right where they were deleted.
+ * @param headLines The highlighted lines of the file at the head revision.
+ * @param baseLines The highlighted lines of the file at the base revision (empty for newly added files).
+ * @param hunks The diff hunks between the two revisions.
+ * @returns The merged lines, each carrying its change kind.
+ */
+export function mergeDiffLines(headLines: HighlightedLine[], baseLines: HighlightedLine[], hunks: DiffHunk[]): HighlightedLine[] {
+    const addedLines = new Set<number>();
+    const removedBefore = new Map<number, HighlightedLine[]>(); // head line number -> removed lines shown before it
+
+    for (const hunk of hunks) {
+        for (let i = 0; i < hunk.newCount; i++) {
+            addedLines.add(hunk.newStart + i);
+        }
+        if (hunk.oldCount > 0) {
+            const removed = baseLines
+                .slice(hunk.oldStart - 1, hunk.oldStart - 1 + hunk.oldCount)
+                .map(line => ({ ...line, change: 'removed' as const }));
+            // For pure deletions git reports the head line *after which* the lines were removed
+            const insertBefore = hunk.newCount === 0 ? hunk.newStart + 1 : hunk.newStart;
+            removedBefore.set(insertBefore, [...(removedBefore.get(insertBefore) ?? []), ...removed]);
+        }
+    }
+
+    const merged: HighlightedLine[] = [];
+    for (const line of headLines) {
+        merged.push(...(removedBefore.get(line.lineNumber) ?? []));
+        removedBefore.delete(line.lineNumber);
+        merged.push({ ...line, change: addedLines.has(line.lineNumber) ? 'added' : 'context' });
+    }
+    // Lines removed at the very end of the file
+    Array.from(removedBefore.keys()).sort((a, b) => a - b).forEach(key => merged.push(...(removedBefore.get(key) ?? [])));
+    return merged;
+}
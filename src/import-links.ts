@@ -0,0 +1,241 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { HighlightedFile, HighlightedLine, LineLink } from './utils/types';
+import { logger } from './utils/logger';
+
+/** A module reference found on a line: the reference as written and where it sits in the line. */
+interface ImportReference {
+    /** The module path or name as written (without quotes). */
+    specifier: string;
+    /** Offsets of the linked text in the line (including the quotes of a string literal). */
+    start: number;
+    end: number;
+}
+
+/** The files a reference can point to, and what is needed to resolve references against them. */
+interface ImportContext {
+    /** The relative paths of all files in the document. */
+    paths: Set<string>;
+    /** The Go files of each directory, sorted (non-test files first), keyed by directory ('' for the root). */
+    goFilesByDir: Map<string, string[]>;
+    /** The module path declared in go.mod, or null if there is none. */
+    goModulePath: string | null;
+}
+
+/**
+ * Finds and resolves the module references of one language.
+ */
+interface ImportGrammar {
+    /**
+     * Finds the module references on a line.
+     * @param text The line's text.
+     * @param state State kept between the lines of a file (e.g. whether a Go import block is open).
+     */
+    find(text: string, state: Record<string, boolean>): ImportReference[];
+    /**
+     * Resolves a reference to a file of the document.
+     * @param specifier The module path or name as written.
+     * @param fromPath The relative path of the importing file.
+     * @param context The files of the document.
+     * @returns The relative path of the imported file, or null if it is not part of the document.
+     */
+    resolve(specifier: string, fromPath: string, context: ImportContext): string | null;
+}
+
+/** Extensions tried for extensionless TypeScript/JavaScript imports, in order of preference. */
+const JS_TS_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.js', '.jsx', '.mjs', '.cjs', '.json'];
+
+/** JavaScript extensions written in imports of TypeScript sources ('./a.js' refers to 'a.ts'), with their TypeScript counterparts. */
+const JS_TO_TS_EXTENSIONS: Record<string, string[]> = { '.js': ['.ts', '.tsx'], '.jsx': ['.tsx'], '.mjs': ['.mts'], '.cjs': ['.cts'] };
+
+/**
+ * Finds every match of a global pattern whose last capture group is the quoted module path
+ * (the group before it must be the quote character).
+ * @param text The line's text.
+ * @param pattern A global regular expression.
+ * @returns The references, each covering the string literal including its quotes.
+ */
+function findQuotedReferences(text: string, pattern: RegExp): ImportReference[] {
+    const references: ImportReference[] = [];
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+        const specifier = match[match.length - 1];
+        const end = match.index + match[0].length; // Just after the closing quote
+        references.push({ specifier, start: end - specifier.length - 2, end });
+    }
+    return references;
+}
+
+/**
+ * Returns the first candidate path that is part of the document.
+ * @param candidates The paths to try, in order of preference.
+ * @param context The files of the document.
+ * @returns The matching relative path, or null if there is none.
+ */
+function firstExisting(candidates: string[], context: ImportContext): string | null {
+    return candidates.map(candidate => path.posix.normalize(candidate)).find(candidate => context.paths.has(candidate)) ?? null;
+}
+
+// --- Language Grammars ---
+
+/** Relative `import ... from`, `export ... from`, `import()`, side-effect imports and `require()` in TypeScript and JavaScript. */
+const JS_TS_IMPORTS: ImportGrammar = {
+    find: text => findQuotedReferences(text, /(?:\bfrom|\bimport\s*\(?|\brequire\s*\()\s*(['"])(\.{1,2}\/[^'"]*|\.{1,2})\1/g),
+    resolve: (specifier, fromPath, context) => {
+        const base = path.posix.join(path.posix.dirname(fromPath), specifier);
+        const extension = path.posix.extname(base);
+        const sourceCounterparts = (JS_TO_TS_EXTENSIONS[extension] ?? []).map(tsExtension => base.slice(0, -extension.length) + tsExtension);
+        return firstExisting([
+            base,
+            ...sourceCounterparts,
+            ...JS_TS_EXTENSIONS.map(jsExtension => base + jsExtension),
+            ...JS_TS_EXTENSIONS.map(jsExtension => `${base}/index${jsExtension}`),
+        ], context);
+    },
+};
+
+/** `from <module> import` (relative with leading dots, or from the repository root) and `import <module>` in Python. */
+const PYTHON_IMPORTS: ImportGrammar = {
+    find: text => {
+        const match = text.match(/^(\s*from\s+)(\.*[A-Za-z_][\w.]*|\.+)(?=\s+import\b)/) ?? text.match(/^(\s*import\s+)([A-Za-z_][\w.]*)/);
+        if (!match) return [];
+        const start = match[1].length;
+        return [{ specifier: match[2], start, end: start + match[2].length }];
+    },
+    resolve: (specifier, fromPath, context) => {
+        const dots = specifier.match(/^\.*/)![0].length;
+        const modulePath = specifier.substring(dots).split('.').filter(Boolean).join('/');
+        if (dots === 0) {
+            // Absolute imports are looked up from the repository root
+            return firstExisting([`${modulePath}.py`, `${modulePath}/__init__.py`], context);
+        }
+        // One dot is the importing file's package, each further dot goes up one level
+        const packageDir = path.posix.join(path.posix.dirname(fromPath), ...Array(dots - 1).fill('..'));
+        const base = path.posix.join(packageDir, modulePath);
+        return modulePath
+            ? firstExisting([`${base}.py`, `${base}/__init__.py`], context)
+            : firstExisting([`${packageDir}/__init__.py`], context);
+    },
+};
+
+/** `#include "..."` in C, C++ and Objective-C, relative to the including file or the repository root. */
+const C_LIKE_INCLUDES: ImportGrammar = {
+    find: text => findQuotedReferences(text, /^\s*#\s*(?:include|import)\s*(")([^"]+)"/g),
+    resolve: (specifier, fromPath, context) =>
+        firstExisting([path.posix.join(path.posix.dirname(fromPath), specifier), specifier], context),
+};
+
+/** Imports of packages inside the module declared in go.mod, single or in an `import ( ... )` block. */
+const GO_IMPORTS: ImportGrammar = {
+    find: (text, state) => {
+        if (state.inImportBlock) {
+            if (/^\s*\)/.test(text)) {
+                state.inImportBlock = false;
+                return [];
+            }
+            return findQuotedReferences(text, /^\s*(?:[\w.]+\s+)?(")([^"]+)"/g);
+        }
+        if (/^import\s*\(/.test(text)) {
+            state.inImportBlock = true;
+            return [];
+        }
+        return findQuotedReferences(text, /^import\s+(?:[\w.]+\s+)?(")([^"]+)"/g);
+    },
+    resolve: (specifier, _fromPath, context) => {
+        const modulePath = context.goModulePath;
+        if (!modulePath || (specifier !== modulePath && !specifier.startsWith(`${modulePath}/`))) {
+            return null; // Standard library or another module
+        }
+        // A package is a directory: link to its first file
+        const dir = specifier.substring(modulePath.length + 1);
+        return context.goFilesByDir.get(dir)?.[0] ?? null;
+    },
+};
+
+/**
+ * A mapping from highlight.js language identifiers to the grammar used to find their imports.
+ */
+const IMPORT_GRAMMARS: Record<string, ImportGrammar> = {
+    'typescript': JS_TS_IMPORTS,
+    'javascript': JS_TS_IMPORTS,
+    'python': PYTHON_IMPORTS,
+    'c': C_LIKE_INCLUDES,
+    'cpp': C_LIKE_INCLUDES,
+    'objectivec': C_LIKE_INCLUDES,
+    'go': GO_IMPORTS,
+};
+
+// --- Resolution ---
+
+/**
+ * Reads the module path declared in the go.mod file at the repository root.
+ * @param repoPath Absolute path to the repository root.
+ * @returns The module path, or null if there is no go.mod (or it declares no module).
+ */
+export async function readGoModulePath(repoPath: string): Promise<string | null> {
+    const goModPath = path.join(repoPath, 'go.mod');
+    if (!(await fs.pathExists(goModPath))) {
+        return null;
+    }
+    const content = await fs.readFile(goModPath, 'utf-8');
+    return content.match(/^module\s+"?([^\s"]+)"?/m)?.[1] ?? null;
+}
+
+/**
+ * Groups the Go files of the document by directory, non-test files first, so an imported package
+ * links to its first regular file.
+ * @param paths The relative paths of all files in the document.
+ * @returns The Go files of each directory.
+ */
+function groupGoFilesByDir(paths: string[]): Map<string, string[]> {
+    const filesByDir = new Map<string, string[]>();
+    for (const filePath of paths.filter(candidate => candidate.endsWith('.go')).sort()) {
+        const dir = path.posix.dirname(filePath);
+        const key = dir === '.' ? '' : dir;
+        filesByDir.set(key, [...(filesByDir.get(key) ?? []), filePath]);
+    }
+    for (const files of filesByDir.values()) {
+        files.sort((a, b) => Number(a.endsWith('_test.go')) - Number(b.endsWith('_test.go')));
+    }
+    return filesByDir;
+}
+
+/**
+ * Finds the imports and includes of every file that refer to another file of the document
+ * (relative TypeScript/JavaScript imports, Python modules, C/C++ `#include "..."` and Go packages of
+ * the same module), and marks the referencing text of each line as a link to the imported file.
+ * Runs on the original line text, before whitespace expansion (which moves the link offsets along).
+ * @param files The highlighted files of the document.
+ * @param goModulePath The module path declared in go.mod, or null if there is none.
+ * @returns The files, with `links` set on the lines that import another file.
+ */
+export function addImportLinks(files: HighlightedFile[], goModulePath: string | null): HighlightedFile[] {
+    const paths = files.map(file => file.relativePath);
+    const context: ImportContext = { paths: new Set(paths), goFilesByDir: groupGoFilesByDir(paths), goModulePath };
+    let linkCount = 0;
+
+    const linkedFiles = files.map(file => {
+        const grammar = IMPORT_GRAMMARS[file.language];
+        if (!grammar) {
+            return file; // No grammar for this language
+        }
+        const state: Record<string, boolean> = {};
+        const highlightedLines = file.highlightedLines.map((line): HighlightedLine => {
+            const text = line.tokens.map(token => token.text).join('');
+            const links: LineLink[] = [];
+            for (const reference of grammar.find(text, state)) {
+                const target = grammar.resolve(reference.specifier, file.relativePath, context);
+                if (target && target !== file.relativePath) {
+                    links.push({ start: reference.start, end: reference.end, target });
+                }
+            }
+            linkCount += links.length;
+            return links.length > 0 ? { ...line, links } : line;
+        });
+        return { ...file, highlightedLines };
+    });
+
+    logger.debug(`Linked ${linkCount} import(s) to files of the document.`);
+    return linkedFiles;
+}
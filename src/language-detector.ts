@@ -0,0 +1,363 @@
+import path from 'path';
+import hljs, { LanguageFn } from 'highlight.js';
+import { logger } from './utils/logger';
+
+// --- Language Mapping ---
+
+/**
+ * A mapping from common file extensions (lowercase) to the language identifier
+ * expected by highlight.js. This helps when highlight.js might not automatically
+ * detect the correct language based solely on the extension.
+ */
+const LANGUAGE_MAP: Record<string, string> = {
+    'ts': 'typescript',
+    'tsx': 'typescript',
+    'js': 'javascript',
+    'jsx': 'javascript',
+    'mjs': 'javascript',
+    'cjs': 'javascript',
+    'py': 'python',
+    'pyw': 'python',
+    'rb': 'ruby',
+    'java': 'java',
+    'cs': 'csharp',
+    'go': 'go',
+    'php': 'php',
+    'html': 'html',
+    'htm': 'html',
+    'css': 'css',
+    'scss': 'scss',
+    'sass': 'scss', // Treat sass as scss for highlighting
+    'less': 'less',
+    'json': 'json',
+    'yaml': 'yaml',
+    'yml': 'yaml',
+    'md': 'markdown',
+    'sh': 'bash',
+    'bash': 'bash',
+    'zsh': 'bash',
+    'ksh': 'bash',
+    'fish': 'bash', // Highlight most shells as bash
+    'sql': 'sql',
+    'xml': 'xml',
+    'kt': 'kotlin',
+    'kts': 'kotlin',
+    'swift': 'swift',
+    'pl': 'perl',
+    'pm': 'perl',
+    'rs': 'rust',
+    'lua': 'lua',
+    'dockerfile': 'dockerfile', // e.g. 'build.dockerfile'
+    'h': 'c', // Often C or C++ header, default to C
+    'hpp': 'cpp',
+    'cpp': 'cpp',
+    'cxx': 'cpp',
+    'cc': 'cpp',
+    'c': 'c',
+    'm': 'objectivec',
+    'mm': 'objectivec',
+    'gradle': 'gradle',
+    'groovy': 'groovy',
+    'cmake': 'cmake',
+    'mk': 'makefile',
+    'tf': 'terraform',
+    'vue': 'vue',
+    'svelte': 'svelte',
+    // Add more as needed
+};
+
+/**
+ * A mapping from exact file names (lowercase) to highlight.js language identifiers,
+ * for well-known files that have no (meaningful) extension.
+ */
+const FILENAME_MAP: Record<string, string> = {
+    'dockerfile': 'dockerfile',
+    'containerfile': 'dockerfile',
+    'makefile': 'makefile',
+    'gnumakefile': 'makefile',
+    'jenkinsfile': 'groovy',
+    'vagrantfile': 'ruby',
+    'gemfile': 'ruby',
+    'rakefile': 'ruby',
+    'podfile': 'ruby',
+    'brewfile': 'ruby',
+    'cmakelists.txt': 'cmake',
+    '.bashrc': 'bash',
+    '.bash_profile': 'bash',
+    '.bash_logout': 'bash',
+    '.bash_aliases': 'bash',
+    '.profile': 'bash',
+    '.zshrc': 'bash',
+    '.zshenv': 'bash',
+    '.zprofile': 'bash',
+    '.kshrc': 'bash',
+    '.envrc': 'bash',
+    '.vimrc': 'vim',
+    '.gitconfig': 'ini',
+    '.editorconfig': 'ini',
+    '.npmrc': 'ini',
+    '.babelrc': 'json',
+    '.eslintrc': 'json',
+    '.prettierrc': 'json',
+    '.codepdfrc': 'json',
+    'nginx.conf': 'nginx',
+};
+
+/** File names from `FILENAME_MAP` that are also recognised with a suffix (e.g. 'Dockerfile.dev', 'Makefile.am'). */
+const FILENAME_VARIANT_PREFIXES = ['dockerfile', 'containerfile', 'makefile', 'jenkinsfile'];
+
+/**
+ * A mapping from script interpreters named in shebang lines (version suffixes removed)
+ * to highlight.js language identifiers.
+ */
+const INTERPRETER_MAP: Record<string, string> = {
+    'sh': 'bash',
+    'bash': 'bash',
+    'zsh': 'bash',
+    'ksh': 'bash',
+    'dash': 'bash',
+    'ash': 'bash',
+    'fish': 'bash',
+    'python': 'python',
+    'pypy': 'python',
+    'node': 'javascript',
+    'nodejs': 'javascript',
+    'deno': 'typescript',
+    'bun': 'javascript',
+    'ts-node': 'typescript',
+    'tsx': 'typescript',
+    'ruby': 'ruby',
+    'perl': 'perl',
+    'php': 'php',
+    'lua': 'lua',
+    'luajit': 'lua',
+    'rscript': 'r',
+    'tclsh': 'tcl',
+    'awk': 'awk',
+    'gawk': 'awk',
+    'make': 'makefile',
+    'groovy': 'groovy',
+    'kotlin': 'kotlin',
+    'swift': 'swift',
+};
+
+/**
+ * Vim filetype and Emacs mode names that highlight.js does not know as aliases.
+ */
+const MODELINE_ALIASES: Record<string, string> = {
+    'shell-script': 'bash',
+    'sh-mode': 'bash',
+    'js2': 'javascript',
+    'js': 'javascript',
+    'c++': 'cpp',
+    'objc': 'objectivec',
+    'conf': 'ini',
+    'dosini': 'ini',
+    'emacs-lisp': 'lisp',
+    'elisp': 'lisp',
+    'text': 'plaintext',
+};
+
+/** Number of lines at the start and end of a file searched for Vim modelines (Vim's own default). */
+const MODELINE_SEARCH_LINES = 5;
+
+/** Only this many characters of a file are used for auto-detection, which runs every grammar. */
+const AUTO_DETECT_SAMPLE_SIZE = 16 * 1024;
+
+/** Auto-detection results with a lower relevance score are treated as plain text. */
+const MIN_AUTO_DETECT_RELEVANCE = 5;
+
+/** File extensions of language definition modules that can be loaded with `registerGrammars`. */
+export const GRAMMAR_FILE_EXTENSIONS = ['.js', '.cjs'];
+
+/**
+ * The user language mapping set with `setLanguageMap`: file extensions and exact file names (lowercase)
+ * mapped to canonical highlight.js language names. Like the grammars registered with highlight.js,
+ * it applies to the whole process.
+ */
+let userLanguageMap: Record<string, string> = {};
+
+// --- Helpers ---
+
+/**
+ * Resolves a language name or alias to the canonical name highlight.js registered it under.
+ * @param name A language name or alias (e.g. 'py', 'sh', 'c++').
+ * @returns The canonical language name (e.g. 'python', 'bash', 'cpp'), or null if highlight.js does not know it.
+ */
+function resolveLanguageName(name: string): string | null {
+    const lowerName = name.toLowerCase();
+    const candidate = MODELINE_ALIASES[lowerName] ?? lowerName;
+    const language = hljs.getLanguage(candidate);
+    if (!language) {
+        return null;
+    }
+    if (hljs.listLanguages().includes(candidate)) {
+        return candidate;
+    }
+    return hljs.listLanguages().find(registered => hljs.getLanguage(registered) === language) ?? null;
+}
+
+/**
+ * Detects the language from the interpreter named in a shebang line (e.g. `#!/usr/bin/env python3`).
+ * @param firstLine The first line of the file.
+ * @returns The language name, or null if the line is not a shebang or the interpreter is unknown.
+ */
+function detectFromShebang(firstLine: string): string | null {
+    const match = firstLine.match(/^#!\s*(\S+)(.*)$/);
+    if (!match) {
+        return null;
+    }
+    let interpreter = path.posix.basename(match[1]);
+    if (interpreter === 'env') {
+        // '/usr/bin/env [-S] [VAR=value ...] python3 -u': the first remaining word is the interpreter
+        const words = match[2].trim().split(/\s+/).filter(word => !word.startsWith('-') && !word.includes('='));
+        interpreter = words[0] ?? '';
+    }
+    // Strip version suffixes such as python3, python3.11 or pypy3
+    const name = interpreter.toLowerCase().replace(/[\d.]+$/, '');
+    return INTERPRETER_MAP[name] ?? null;
+}
+
+/**
+ * Detects the language declared in a Vim modeline (`vim: set ft=python:`, `vi: filetype=sh`) near the
+ * start or end of the file, or in an Emacs mode line (`-*- mode: ruby -*-`, `-*- python -*-`) on the
+ * first line (or the second, after a shebang).
+ * @param lines The lines of the file.
+ * @returns The language name, or null if no modeline names a language highlight.js knows.
+ */
+function detectFromModeline(lines: string[]): string | null {
+    for (const line of lines.slice(0, 2)) {
+        const emacsMatch = line.match(/-\*-(.*?)-\*-/);
+        if (emacsMatch) {
+            const settings = emacsMatch[1];
+            const mode = settings.includes(':')
+                ? settings.match(/(?:^|;)\s*mode\s*:\s*([\w+-]+)/i)?.[1]
+                : settings.trim();
+            const language = mode ? resolveLanguageName(mode.replace(/-mode$/i, '')) : null;
+            if (language) {
+                return language;
+            }
+        }
+    }
+
+    const candidates = lines.length > MODELINE_SEARCH_LINES * 2
+        ? [...lines.slice(0, MODELINE_SEARCH_LINES), ...lines.slice(-MODELINE_SEARCH_LINES)]
+        : lines;
+    for (const line of candidates) {
+        const vimMatch = line.match(/(?:^|\s)(?:vi|vim|ex):\s*(?:set?\s+)?(.*)/);
+        if (!vimMatch) continue;
+        const fileType = vimMatch[1].match(/(?:^|[\s:])(?:ft|filetype|syn|syntax)=([\w+-]+)/);
+        const language = fileType ? resolveLanguageName(fileType[1]) : null;
+        if (language) {
+            return language;
+        }
+    }
+    return null;
+}
+
+// --- Customization ---
+
+/**
+ * Registers additional highlight.js language definitions from local module files.
+ * Each module must export a language definition function (as `module.exports` or the default export),
+ * the same format as the grammars bundled with highlight.js. The language is registered under the file
+ * name without its extension (e.g. 'grammars/acme.js' becomes 'acme'), plus any aliases it declares.
+ *
+ * @param grammarPaths Absolute paths to the definition modules.
+ * @throws An error if a module cannot be loaded or does not export a valid definition.
+ */
+export function registerGrammars(grammarPaths: string[]): void {
+    for (const grammarPath of grammarPaths) {
+        const name = path.basename(grammarPath, path.extname(grammarPath)).toLowerCase();
+        let definition: LanguageFn;
+        try {
+            const loaded = require(grammarPath);
+            definition = typeof loaded === 'function' ? loaded : loaded?.default;
+            if (typeof definition !== 'function') {
+                throw new Error('the module must export a language definition function');
+            }
+            // Run the definition once ourselves: highlight.js would otherwise only log a failure
+            definition(hljs);
+        } catch (error) {
+            throw new Error(`Could not load grammar ${grammarPath}: ${(error as Error).message}`);
+        }
+        hljs.registerLanguage(name, definition);
+        logger.debug(`Registered grammar "${name}" from ${grammarPath}.`);
+    }
+}
+
+/**
+ * Sets the user language mapping, which takes precedence over the built-in detection.
+ * Call after `registerGrammars` so mappings can refer to custom languages.
+ *
+ * @param languageMap File extensions (with or without the leading dot) or exact file names mapped to
+ *                    highlight.js language names or aliases (e.g. { "inc": "php", "BUILD": "python" }).
+ * @throws An error listing every mapping whose language highlight.js does not know.
+ */
+export function setLanguageMap(languageMap: Record<string, string>): void {
+    const resolved: Record<string, string> = {};
+    const problems: string[] = [];
+    for (const [key, languageName] of Object.entries(languageMap)) {
+        const language = resolveLanguageName(languageName);
+        if (!language) {
+            problems.push(`${key}=${languageName}`);
+            continue;
+        }
+        resolved[key.replace(/^\./, '').toLowerCase()] = language;
+    }
+    if (problems.length > 0) {
+        throw new Error(`Unknown language in language mapping: ${problems.join(', ')}. Use a highlight.js language name or register a grammar for it.`);
+    }
+    userLanguageMap = resolved;
+    logger.debug(`Language mapping: ${Object.entries(resolved).map(([key, language]) => `${key}=${language}`).join(', ') || '(none)'}`);
+}
+
+// --- Detection Pipeline ---
+
+/**
+ * Detects the highlight.js language of a file. The checks run in order and the first one that
+ * yields a language highlight.js supports wins:
+ * 1. the user language mapping (exact file name, then extension), see `setLanguageMap`,
+ * 2. well-known file names (`Dockerfile`, `Makefile`, `.bashrc`, ...),
+ * 3. a Vim or Emacs modeline (an explicit declaration, so it overrides the extension),
+ * 4. the file extension,
+ * 5. the interpreter in a shebang line,
+ * 6. a single auto-detection over the start of the file.
+ *
+ * @param relativePath The file path (only the file name is used).
+ * @param content The file content.
+ * @returns The canonical highlight.js language name, or 'plaintext' if nothing matched.
+ */
+export function detectLanguage(relativePath: string, content: string): string {
+    const fileName = path.posix.basename(relativePath).toLowerCase();
+    const extension = path.extname(fileName).substring(1);
+    const lines = content.split(/\r?\n/);
+
+    const fileNamePrefix = fileName.split('.')[0];
+    const byFileName = FILENAME_MAP[fileName]
+        ?? (FILENAME_VARIANT_PREFIXES.includes(fileNamePrefix) ? FILENAME_MAP[fileNamePrefix] : undefined);
+    const byExtension = LANGUAGE_MAP[extension] ?? extension;
+
+    const steps: [string, () => string | null][] = [
+        ['language mapping', () => userLanguageMap[fileName] ?? (extension ? userLanguageMap[extension] : undefined) ?? null],
+        ['file name', () => byFileName ? resolveLanguageName(byFileName) : null],
+        ['modeline', () => detectFromModeline(lines)],
+        ['extension', () => byExtension ? resolveLanguageName(byExtension) : null],
+        ['shebang', () => detectFromShebang(lines[0])],
+    ];
+    for (const [step, detect] of steps) {
+        const language = detect();
+        if (language) {
+            logger.debug(`Detected ${relativePath} as ${language} (by ${step}).`);
+            return language;
+        }
+    }
+
+    const result = hljs.highlightAuto(content.substring(0, AUTO_DETECT_SAMPLE_SIZE));
+    if (result.language && result.relevance >= MIN_AUTO_DETECT_RELEVANCE) {
+        logger.debug(`Detected ${relativePath} as ${result.language} (by auto-detection, relevance ${result.relevance}).`);
+        return result.language;
+    }
+    logger.debug(`Could not detect a language for ${relativePath}; using plain text.`);
+    return 'plaintext';
+}
@@ -0,0 +1,181 @@
+import { FontRun } from './utils/fonts';
+import { WrapMode } from './utils/types';
+
+/** The wrap modes selectable with `--wrap`. */
+export const WRAP_MODES: WrapMode[] = ['wrap', 'truncate', 'shrink'];
+
+/**
+ * Characters after which a long line is preferably wrapped: whitespace and punctuation that
+ * usually ends an expression, so wrapped code keeps whole words and operators together.
+ */
+const BREAK_AFTER_CHARACTERS = new Set([' ', '\t', ',', ';', ':', '.', ')', ']', '}', '>', '|', '&', '+', '-', '*', '/', '=', '?']);
+
+/** Characters used to detect monospace fonts: if these all have the same width, every glyph is assumed to. */
+const MONOSPACE_PROBE = ['i', 'W', 'm', '.'];
+
+/**
+ * A run of code text drawn with one font and style, as measured and placed by the layout engine.
+ */
+export interface LayoutRun extends FontRun {
+    /** The text color, or undefined for the theme's default color. */
+    color?: string;
+    /** Whether the run is underlined. */
+    underline: boolean;
+}
+
+/**
+ * A piece of a run placed on one visual line, with its measured width.
+ */
+export interface LayoutSegment extends LayoutRun {
+    /** The width of the segment in points. */
+    width: number;
+}
+
+/**
+ * How one source line is laid out: the runs placed on each visual line.
+ */
+export interface LineLayout {
+    /** The segments of each visual line; a line that fits (or is truncated) has exactly one. */
+    visualLines: LayoutSegment[][];
+    /** Whether text was cut off at the end of the line ('truncate' mode). */
+    truncated: boolean;
+}
+
+/** Measures the width of a single character drawn with a registered font. */
+export type CharMeasure = (font: string, char: string) => number;
+
+/**
+ * Creates a character measuring function for a font size. Monospace fonts are measured once and
+ * every character is computed arithmetically from that advance; other fonts (such as fallback fonts
+ * for CJK text) are measured per character, with each width cached.
+ * @param doc The active PDFDocument instance, with the fonts registered.
+ * @param fontSize The font size in points.
+ * @returns The measuring function.
+ */
+export function createCharMeasure(doc: PDFKit.PDFDocument, fontSize: number): CharMeasure {
+    const monospaceAdvances = new Map<string, number | null>();
+    const charWidths = new Map<string, number>();
+    return (font, char) => {
+        let advance = monospaceAdvances.get(font);
+        if (advance === undefined) {
+            doc.font(font).fontSize(fontSize);
+            const widths = MONOSPACE_PROBE.map(probe => doc.widthOfString(probe));
+            advance = widths.every(width => Math.abs(width - widths[0]) < 0.001) ? widths[0] : null;
+            monospaceAdvances.set(font, advance);
+        }
+        if (advance !== null) {
+            return advance;
+        }
+        const key = `${font}\u0000${char}`;
+        let width = charWidths.get(key);
+        if (width === undefined) {
+            width = doc.font(font).fontSize(fontSize).widthOfString(char);
+            charWidths.set(key, width);
+        }
+        return width;
+    };
+}
+
+/**
+ * Measures the total width of a line's runs.
+ * @param runs The runs of the line.
+ * @param measure The character measuring function.
+ * @returns The width in points.
+ */
+export function measureRuns(runs: LayoutRun[], measure: CharMeasure): number {
+    let width = 0;
+    for (const run of runs) {
+        for (const char of run.text) {
+            width += measure(run.font, char);
+        }
+    }
+    return width;
+}
+
+/**
+ * Lays out a source line within the code width. In 'wrap' mode, text that does not fit continues on
+ * further visual lines, broken after the last whitespace or punctuation that fits (or mid-word if there is
+ * none). In 'truncate' mode, text that does not fit is cut off, leaving room for the overflow marker.
+ * Runs in linear time: every character is measured once.
+ * @param runs The runs of the line.
+ * @param measure The character measuring function.
+ * @param firstLineWidth The width available on the first visual line.
+ * @param continuationWidth The width available on wrapped visual lines (after the wrap indent).
+ * @param mode 'wrap' or 'truncate'.
+ * @param markerWidth The width of the overflow marker drawn after truncated text.
+ * @returns The layout of the line.
+ */
+export function layoutLine(
+    runs: LayoutRun[],
+    measure: CharMeasure,
+    firstLineWidth: number,
+    continuationWidth: number,
+    mode: Exclude<WrapMode, 'shrink'>,
+    markerWidth: number
+): LineLayout {
+    // Flatten the line into characters, remembering the run each belongs to
+    const chars: { char: string; run: number; width: number }[] = [];
+    runs.forEach((run, runIndex) => {
+        for (const char of run.text) {
+            chars.push({ char, run: runIndex, width: measure(run.font, char) });
+        }
+    });
+    const totalWidth = chars.reduce((sum, entry) => sum + entry.width, 0);
+
+    // Character offsets at which each visual line starts
+    const lineStarts = [0];
+    let truncatedAt = -1;
+    if (totalWidth > firstLineWidth + 0.001) {
+        if (mode === 'truncate') {
+            let width = 0;
+            truncatedAt = 0;
+            while (truncatedAt < chars.length && width + chars[truncatedAt].width <= firstLineWidth - markerWidth + 0.001) {
+                width += chars[truncatedAt].width;
+                truncatedAt++;
+            }
+        } else {
+            let lineStart = 0;
+            let width = 0;
+            let lastBreak = -1; // Offset just after the last break opportunity on the current visual line
+            let widthAtBreak = 0;
+            for (let index = 0; index < chars.length; index++) {
+                const charWidth = chars[index].width;
+                const available = lineStarts.length === 1 ? firstLineWidth : continuationWidth;
+                if (width + charWidth > available + 0.001 && index > lineStart) {
+                    // Break after the last opportunity, or right here if the visual line has none
+                    // (or if the text carried over would not fit on the next visual line either)
+                    const carriesOver = lastBreak > lineStart && width - widthAtBreak + charWidth <= continuationWidth + 0.001;
+                    const breakAt = carriesOver ? lastBreak : index;
+                    lineStarts.push(breakAt);
+                    width = breakAt === index ? 0 : width - widthAtBreak;
+                    lineStart = breakAt;
+                    lastBreak = -1;
+                }
+                width += charWidth;
+                if (BREAK_AFTER_CHARACTERS.has(chars[index].char)) {
+                    lastBreak = index + 1;
+                    widthAtBreak = width;
+                }
+            }
+        }
+    }
+
+    // Turn each visual line's character range back into segments of the original runs
+    const end = truncatedAt >= 0 ? truncatedAt : chars.length;
+    const visualLines = lineStarts.map((start, lineIndex) => {
+        const stop = lineIndex + 1 < lineStarts.length ? lineStarts[lineIndex + 1] : end;
+        const pieces: { runIndex: number; segment: LayoutSegment }[] = [];
+        for (let index = start; index < stop; index++) {
+            const entry = chars[index];
+            const last = pieces[pieces.length - 1];
+            if (last && last.runIndex === entry.run) {
+                last.segment.text += entry.char;
+                last.segment.width += entry.width;
+            } else {
+                pieces.push({ runIndex: entry.run, segment: { ...runs[entry.run], text: entry.char, width: entry.width } });
+            }
+        }
+        return pieces.map(({ segment }) => segment);
+    });
+    return { visualLines, truncated: truncatedAt >= 0 };
+}
@@ -2,10 +2,70 @@ import path from 'path';
 import { findCodeFiles } from './file-finder';
 import { highlightCode } from './syntax-highlighter';
 import { generatePdf } from './pdf-renderer';
-import { PdfOptions, HighlightedFile, FileInfo } from './utils/types';
-import { getTheme } from './utils/themes';
+import { getChangedFiles, getFileHunks, getRevisionInfo, mergeDiffLines, readFileAtRevision } from './git-diff';
+import { usesPlaceholder } from './page-templates';
+import { registerGrammars, setLanguageMap } from './language-detector';
+import { expandWhitespace } from './whitespace';
+import { addImportLinks, readGoModulePath } from './import-links';
+import { computeRepositoryStats } from './repo-stats';
+import { PdfOptions, HighlightedFile, FileInfo, DiffOptions, SyntaxTheme } from './utils/types';
+import { loadTheme } from './theme-loader';
+import { toMonochromeTheme } from './utils/themes';
+import { enforceThemeContrast, findContrastIssues } from './utils/contrast';
 import { logger } from './utils/logger';
 
+// Theme conversion is part of the programmatic API as well as the `codepdf theme import` command
+export { importTheme, importThemeFile, ThemeImportFormat, ThemeImportResult } from './theme-importer';
+
+/**
+ * Annotates a highlighted file with the changes made between the two diff revisions:
+ * marks added and unchanged lines and interleaves the removed lines of the base revision.
+ *
+ * @param repoPath Absolute path to the repository/directory being processed.
+ * @param diff The diff mode settings.
+ * @param file The file highlighted at the head revision.
+ * @param theme The syntax theme, used to highlight the base revision's removed lines.
+ * @returns The file with change kinds set on every line.
+ */
+async function annotateFileChanges(repoPath: string, diff: DiffOptions, file: HighlightedFile, theme: SyntaxTheme): Promise<HighlightedFile> {
+    const hunks = await getFileHunks(repoPath, diff, file.relativePath);
+    let baseLines: HighlightedFile['highlightedLines'] = [];
+    if (hunks.some(hunk => hunk.oldCount > 0)) {
+        // Highlight the whole base file so removed lines are colored in context
+        const baseContent = await readFileAtRevision(repoPath, diff.base, file.relativePath);
+        if (baseContent !== null) {
+            baseLines = highlightCode({ ...file, content: baseContent }, theme).highlightedLines;
+        }
+    }
+    return { ...file, highlightedLines: mergeDiffLines(file.highlightedLines, baseLines, hunks) };
+}
+
+/**
+ * Checks the contrast of the theme's text colors against their backgrounds and, depending on
+ * `options.contrastMode`, warns about the colors below `options.minContrast` or adjusts them.
+ *
+ * @param theme The theme that will be used for rendering.
+ * @param options PDF generation options (contrast mode, minimum ratio and theme name).
+ * @returns The theme to render with (adjusted in 'fix' mode, otherwise unchanged).
+ */
+function applyContrastCheck(theme: SyntaxTheme, options: PdfOptions): SyntaxTheme {
+    if (options.contrastMode === 'off') {
+        return theme;
+    }
+    const issues = findContrastIssues(theme, options.minContrast);
+    if (issues.length === 0) {
+        logger.debug(`All theme colors reach a contrast of ${options.minContrast}:1.`);
+        return theme;
+    }
+    const details = issues.map(issue => `${issue.key} ${issue.color} on ${issue.background} (${issue.ratio.toFixed(2)}:1)`).join(', ');
+    if (options.contrastMode === 'fix') {
+        logger.info(`Adjusted ${issues.length} theme color(s) to reach a contrast of ${options.minContrast}:1: ${details}`);
+        return enforceThemeContrast(theme, options.minContrast);
+    }
+    logger.warn(`Theme "${options.theme}" has ${issues.length} color(s) below a contrast of ${options.minContrast}:1: ${details}. Use --contrast fix to adjust them automatically.`);
+    return theme;
+}
+
 /**
  * Main orchestration function for the codepdf tool.
  * Takes the repository path and PDF options, finds files, highlights them,
@@ -23,9 +83,34 @@ export async function run(repoPath: string, options: PdfOptions): Promise<void>
     logger.info(`Using Theme: ${options.theme}, Font Size: ${options.fontSize}pt, Line Numbers: ${options.showLineNumbers}`);
 
     try {
+        // --- Step 0: Register custom grammars and the language mapping (used while scanning) ---
+        registerGrammars(options.grammars);
+        setLanguageMap(options.languageMap);
+
         // --- Step 1: Find relevant code files ---
         logger.info("Scanning for code files...");
-        const filesToProcess: FileInfo[] = await findCodeFiles(repoPath);
+        // In diff mode, only the files changed between the two revisions are considered
+        let changedPaths: Set<string> | undefined;
+        if (options.diff) {
+            const range = `${options.diff.base}..${options.diff.head ?? '(working tree)'}`;
+            const { changed, deleted } = await getChangedFiles(repoPath, options.diff);
+            logger.info(`Diff mode: ${changed.length} changed file(s) in ${range}.`);
+            if (deleted.length > 0) {
+                logger.info(`Skipping ${deleted.length} file(s) deleted in ${range}: ${deleted.join(', ')}`);
+            }
+            changedPaths = new Set(changed);
+        }
+        // Changed files no longer in the working tree (e.g. renamed or deleted after the head revision) are read from git
+        const diffHead = options.diff?.head;
+        const readMissing = diffHead ? (relativePath: string) => readFileAtRevision(repoPath, diffHead, relativePath) : undefined;
+        const filesToProcess: FileInfo[] = await findCodeFiles(repoPath, options.fileFilters, changedPaths, readMissing);
+
+        // Print the head revision's content when it differs from the working tree
+        if (options.diff?.head) {
+            for (const fileInfo of filesToProcess) {
+                fileInfo.content = await readFileAtRevision(repoPath, options.diff.head, fileInfo.relativePath) ?? fileInfo.content;
+            }
+        }
 
         // If no files are found, log a warning and exit gracefully.
         if (filesToProcess.length === 0) {
@@ -35,18 +120,21 @@ export async function run(repoPath: string, options: PdfOptions): Promise<void>
         logger.info(`Found ${filesToProcess.length} files to process.`);
 
         // --- Step 2: Load the selected syntax theme ---
-        const theme = getTheme(options.theme);
-        logger.info(`Using theme: ${options.theme}`); // Log the name provided by the user
+        const loadedTheme = await loadTheme(options.theme, options.themesDir);
+        const theme = applyContrastCheck(options.printMode === 'mono' ? toMonochromeTheme(loadedTheme) : loadedTheme, options);
+        logger.info(`Using theme: ${options.theme}${options.printMode === 'mono' ? ' (grayscale print mode)' : ''}`); // Log the name provided by the user
 
         // --- Step 3: Apply syntax highlighting ---
         logger.info("Applying syntax highlighting to files...");
         const highlightStartTime = Date.now();
 
+        // Comment markers are only collected when they are listed or emphasized
+        const markerTags = (options.todoIndex || options.emphasizeTodos) ? options.todoTags : [];
         // Process highlighting for each file, handling individual file errors
-        const highlightedFiles: HighlightedFile[] = filesToProcess.map(fileInfo => {
+        let highlightedFiles: HighlightedFile[] = filesToProcess.map(fileInfo => {
             try {
                  // Attempt to highlight the code for the current file
-                 return highlightCode(fileInfo, theme);
+                 return highlightCode(fileInfo, theme, markerTags);
             } catch (highlightError) {
                 // Catch and log errors during highlighting of a single file
                 logger.error(`Failed to highlight ${fileInfo.relativePath}: ${(highlightError as Error).message}`);
@@ -62,6 +150,26 @@ export async function run(repoPath: string, options: PdfOptions): Promise<void>
                  };
             }
         });
+        // In diff mode, mark changed lines and interleave removed ones
+        if (options.diff) {
+            const annotatedFiles: HighlightedFile[] = [];
+            for (const file of highlightedFiles) {
+                annotatedFiles.push(await annotateFileChanges(repoPath, options.diff, file, theme));
+            }
+            highlightedFiles = annotatedFiles;
+        }
+        // Count lines before whitespace markers are added, so they are not mistaken for text
+        const stats = options.statistics ? computeRepositoryStats(highlightedFiles) : null;
+        // Link imports of other printed files (on the original text; whitespace expansion moves the links along)
+        if (options.importLinks) {
+            highlightedFiles = addImportLinks(highlightedFiles, await readGoModulePath(repoPath));
+        }
+        // Expand tabs (and mark invisible whitespace) before layout, so line wrapping measures the drawn text
+        const whitespaceOptions = { tabWidth: options.tabWidth, showWhitespace: options.showWhitespace, markerColor: theme.lineNumberColor };
+        highlightedFiles = highlightedFiles.map(file => ({
+            ...file,
+            highlightedLines: expandWhitespace(file.highlightedLines, whitespaceOptions),
+        }));
         const highlightEndTime = Date.now();
         logger.info(`Syntax highlighting complete (${((highlightEndTime - highlightStartTime) / 1000).toFixed(2)}s).`);
 
@@ -69,8 +177,12 @@ export async function run(repoPath: string, options: PdfOptions): Promise<void>
         // --- Step 4: Generate the PDF document ---
         logger.info("Generating PDF document...");
         const repoName = path.basename(repoPath); // Use directory name for cover page context
+        // Only run git if a header or footer template shows revision information
+        const showsRevision = [options.headerTemplate, options.footerTemplate]
+            .some(template => usesPlaceholder(template, 'gitCommit') || usesPlaceholder(template, 'gitBranch'));
+        const revision = showsRevision ? await getRevisionInfo(repoPath) : { commit: null, branch: null };
         // generatePdf handles its own success/error logging for the final PDF generation step
-        await generatePdf(highlightedFiles, options, theme, repoName);
+        await generatePdf(highlightedFiles, options, theme, repoName, revision, stats);
 
     } catch (error) {
         // Catch critical errors (e.g., from file finding, PDF stream setup)
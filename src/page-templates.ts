@@ -0,0 +1,69 @@
+import { PageTemplate } from './utils/types';
+
+/** The placeholders available in header and footer templates. */
+export const TEMPLATE_PLACEHOLDERS = [
+    'file', 'dir', 'language', 'page', 'totalPages', 'filePage', 'filePages',
+    'lineRange', 'date', 'title', 'gitCommit', 'gitBranch',
+] as const;
+
+/** The name of a template placeholder (without braces). */
+export type TemplatePlaceholder = typeof TEMPLATE_PLACEHOLDERS[number];
+
+/** The values substituted for the placeholders on one page. */
+export type TemplateValues = Record<TemplatePlaceholder, string>;
+
+/** Separates the left, center and right sections of a template given as a single string. */
+const SECTION_SEPARATOR = '|';
+
+/** Matches a placeholder such as `{page}`. */
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+/**
+ * Parses a header or footer template given as a single string: up to three sections separated by '|',
+ * for the left, center and right of the line ("{file}" is left-aligned, "|Page {page}|" centered).
+ * @param spec The template string.
+ * @returns The template sections (empty strings for sections left out).
+ * @throws An error if the template has more than three sections.
+ */
+export function parsePageTemplate(spec: string): PageTemplate {
+    const sections = spec.split(SECTION_SEPARATOR);
+    if (sections.length > 3) {
+        throw new Error(`has ${sections.length} sections; use at most three ("left|center|right")`);
+    }
+    const [left = '', center = '', right = ''] = sections;
+    return { left, center, right };
+}
+
+/**
+ * Lists the placeholders in a template that are not known.
+ * @param template The template to check.
+ * @returns The unknown placeholder names (empty if all are valid).
+ */
+export function findUnknownPlaceholders(template: PageTemplate): string[] {
+    const text = [template.left, template.center, template.right].join(SECTION_SEPARATOR);
+    return (text.match(PLACEHOLDER_PATTERN) ?? [])
+        .map(placeholder => placeholder.slice(1, -1)) // Strip the braces
+        .filter(name => !(TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name));
+}
+
+/**
+ * Checks whether a template uses a placeholder, so expensive values (such as git information) are only looked up when needed.
+ * @param template The template to check.
+ * @param placeholder The placeholder name.
+ * @returns True if any section contains the placeholder.
+ */
+export function usesPlaceholder(template: PageTemplate, placeholder: TemplatePlaceholder): boolean {
+    return [template.left, template.center, template.right].some(section => section.includes(`{${placeholder}}`));
+}
+
+/**
+ * Fills in the placeholders of every section of a template.
+ * @param template The template.
+ * @param values The values for this page.
+ * @returns The sections with all placeholders replaced.
+ */
+export function fillPageTemplate(template: PageTemplate, values: TemplateValues): PageTemplate {
+    const fill = (section: string) => section.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+        (TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name) ? values[name as TemplatePlaceholder] : placeholder);
+    return { left: fill(template.left), center: fill(template.center), right: fill(template.right) };
+}
@@ -1,8 +1,15 @@
 import PDFDocument from 'pdfkit';
 import fs from 'fs-extra';
 import path from 'path';
-import { HighlightedFile, HighlightedLine, HighlightedToken, PdfOptions, SyntaxTheme } from './utils/types';
+import { Annotation, BlankPageMode, HighlightedFile, HighlightedLine, HighlightedToken, Orientation, PageTemplate, PaperSizeName, PdfOptions, RevisionInfo, SyntaxTheme } from './utils/types';
+import { extractSymbols, extractTopLevelSymbols } from './symbol-extractor';
+import { FontSet, getFontAscent, getFontName, pickFontForText, registerFonts, splitTextByFont } from './utils/fonts';
 import { logger } from './utils/logger';
+import { createCharMeasure, layoutLine, LayoutRun, LayoutSegment, measureRuns } from './line-layout';
+import { fillPageTemplate, TemplateValues } from './page-templates';
+import { NumberedAnnotation, numberAnnotations } from './annotations';
+import { getContrastRatio } from './utils/contrast';
+import { LineCounts, RepositoryStats } from './repo-stats';
 
 // --- Constants ---
 const POINTS_PER_INCH = 72;
@@ -18,64 +25,207 @@ const TOC_DOT_PADDING = 5;
 const CODE_BLOCK_PADDING = 10;
 /** Character(s) used to indicate a wrapped line in the line number gutter. */
 const WRAP_INDICATOR = '->'; // Using simple ASCII
+/** Marker drawn at the end of a line cut off in truncate mode. */
+const OVERFLOW_MARKER = '\u2026';
+/** Color of the gutter band marking lines added in diff mode. */
+const DIFF_ADDED_COLOR = '#2da44e';
+/** Color of the gutter band, line number and strikethrough of lines removed in diff mode. */
+const DIFF_REMOVED_COLOR = '#cf222e';
+/** Width (in points) of the gutter band marking changed lines in diff mode. */
+const DIFF_BAND_WIDTH = 3;
+/** Horizontal space (in points) between the columns of a multi-column layout. */
+const COLUMN_GAP = 14;
+/** Vertical space (in points) between a file and the next file packed onto the same page. */
+const PACKED_FILE_GAP = 12;
+/** The number of code lines (or all lines of a shorter file) that must fit below a file's banner for it to be packed after the previous file. */
+const MIN_PACKED_LINES = 10;
+/** Default color of annotation bands and markers (bands are drawn translucent, so it suits light and dark themes). */
+const DEFAULT_ANNOTATION_COLOR = '#f2cc60';
+/** Color of annotation bands and markers in mono print mode. */
+const MONO_ANNOTATION_COLOR = '#8c8c8c';
+/** Opacity of the band drawn behind annotated lines. */
+const ANNOTATION_BAND_OPACITY = 0.35;
+/** Width (in points) of the notes column beside annotated code in 'margin' mode (at most 30% of the column). */
+const MARGIN_NOTE_WIDTH = 130;
+/** Horizontal space (in points) between the code block and its notes column. */
+const MARGIN_NOTE_GAP = 8;
+/** Font size (in points) of annotation notes in the margin. */
+const MARGIN_NOTE_FONT_SIZE = 8;
+/** Title of the appendix listing the annotation notes. */
+const ANNOTATIONS_TITLE = 'Annotations';
+/** Title of the appendix listing every symbol alphabetically. */
+const SYMBOL_INDEX_TITLE = 'Symbol Index';
+/** Title of the repository statistics section after the cover page. */
+const STATISTICS_TITLE = 'Repository Statistics';
+/** Bar colors of code, comment and blank lines in the statistics charts. */
+const STATISTICS_COLORS: Record<keyof LineCounts, string> = { code: '#4c8eda', comment: '#57ab5a', blank: '#c6c6c6' };
+/** Bar colors of the statistics charts in mono print mode. */
+const MONO_STATISTICS_COLORS: Record<keyof LineCounts, string> = { code: '#404040', comment: '#8c8c8c', blank: '#cccccc' };
+/** Color of the band emphasizing lines with a comment marker (drawn translucent, like annotation bands). */
+const COMMENT_MARKER_COLOR = '#f47067';
+/** Color of the band emphasizing lines with a comment marker in mono print mode. */
+const MONO_COMMENT_MARKER_COLOR = '#b4b4b4';
+/** Title of the appendix listing the comment markers (TODO, FIXME, ...). */
+const TODO_INDEX_TITLE = 'TODO Index';
 
 // --- Helper Functions ---
 
+/** Portrait dimensions (width, height in points) of the named paper sizes. */
+const PAPER_SIZES: Record<PaperSizeName, [number, number]> = {
+    A3: [841.89, 1190.55],
+    A4: [595.28, 841.89],
+    A5: [419.53, 595.28],
+    Letter: [8.5 * POINTS_PER_INCH, 11 * POINTS_PER_INCH],
+    Legal: [8.5 * POINTS_PER_INCH, 14 * POINTS_PER_INCH],
+    Tabloid: [11 * POINTS_PER_INCH, 17 * POINTS_PER_INCH],
+};
+
+/** The paper size names accepted by `--paper-size`. */
+export const PAPER_SIZE_NAMES = Object.keys(PAPER_SIZES) as PaperSizeName[];
+
+/** The page orientations selectable with `--orientation`. */
+export const ORIENTATIONS: Orientation[] = ['portrait', 'landscape', 'auto'];
+
+/** The blank page modes selectable with `--blank-pages`. */
+export const BLANK_PAGE_MODES: BlankPageMode[] = ['marked', 'uncounted'];
+
+/** Note printed on blank pages in 'marked' mode. */
+const BLANK_PAGE_NOTE = 'This page intentionally left blank.';
+
 /**
- * Converts standard paper size names ('A4', 'Letter') or a [width, height] array
- * into PDF point dimensions [width, height]. Validates input and defaults to A4 on error.
+ * Converts a paper size name or a [width, height] array into page dimensions in points.
+ * Named sizes are portrait; a custom size is taken as the portrait page. Landscape swaps the dimensions.
+ * Validates input and defaults to A4 on error.
  * @param size The paper size specified in PdfOptions.
+ * @param landscape Whether the page is turned to landscape.
  * @returns A tuple [width, height] in PDF points.
  */
-function getPaperSizeInPoints(size: PdfOptions['paperSize']): [number, number] {
+function getPaperSizeInPoints(size: PdfOptions['paperSize'], landscape: boolean): [number, number] {
+    let dimensions: [number, number];
     if (Array.isArray(size)) {
         // Validate custom size array
         if (size.length === 2 && typeof size[0] === 'number' && typeof size[1] === 'number' && size[0] > 0 && size[1] > 0) {
-            return size;
+            dimensions = size;
         } else {
             logger.warn(`Invalid custom paper size array: [${size.join(', ')}]. Falling back to A4.`);
-            return [595.28, 841.89]; // Default to A4
+            dimensions = PAPER_SIZES.A4;
         }
+    } else if (PAPER_SIZES[size]) {
+        dimensions = PAPER_SIZES[size];
+    } else {
+        // Log warning and default to A4 if the name is unrecognized
+        logger.warn(`Unrecognized paper size string: "${size}". Falling back to A4.`);
+        dimensions = PAPER_SIZES.A4;
     }
-    // Handle standard size names
-    switch (size?.toUpperCase()) { // Add safe navigation for size
-        case 'LETTER':
-            return [8.5 * POINTS_PER_INCH, 11 * POINTS_PER_INCH];
-        case 'A4':
-            return [595.28, 841.89]; // A4 dimensions in points
-        default:
-            // Log warning and default to A4 if string is unrecognized or null/undefined
-            logger.warn(`Unrecognized paper size string: "${size}". Falling back to A4.`);
-            return [595.28, 841.89];
+    return landscape ? [dimensions[1], dimensions[0]] : dimensions;
+}
+
+/**
+ * Whether a page is a verso (left-hand, even-numbered) page when printed double-sided.
+ * @param pageIndex Zero-based index of the page.
+ * @returns True for verso pages.
+ */
+function isVersoPage(pageIndex: number): boolean {
+    return pageIndex % 2 === 1;
+}
+
+/**
+ * Returns the margins of a page. In duplex mode the left and right margins are the inner and outer
+ * margins of recto pages, and are swapped on verso pages so the binding margin is always on the inside.
+ * @param options The PDF generation options.
+ * @param pageIndex Zero-based index of the page.
+ * @returns The page's margins.
+ */
+function getPageMargins(options: PdfOptions, pageIndex: number): PdfOptions['margins'] {
+    if (options.duplex && isVersoPage(pageIndex)) {
+        return { ...options.margins, left: options.margins.right, right: options.margins.left };
     }
+    return options.margins;
 }
 
 /**
- * Calculates the available vertical space (in points) for content on a page,
- * excluding margins, header, and footer. Ensures result is non-negative.
+ * Adds a page with the configured paper size and margins. Every page is added through here, since
+ * pages added with partial options fall back to PDFKit's default size (Letter).
  * @param doc The active PDFDocument instance.
  * @param options The PDF generation options.
- * @returns The calculated content height in points.
+ * @param landscape Whether the page is turned to landscape.
  */
-function getContentHeight(doc: PDFKit.PDFDocument, options: PdfOptions): number {
-    const pageHeight = doc.page.height; // Use current page height
-    const calculatedHeight = pageHeight - options.margins.top - options.margins.bottom - options.headerHeight - options.footerHeight;
-    return Math.max(0, calculatedHeight); // Ensure non-negative height
+function addSizedPage(doc: PDFKit.PDFDocument, options: PdfOptions, landscape: boolean): void {
+    const pageIndex = doc.bufferedPageRange().count; // Index of the page about to be added
+    doc.addPage({ size: getPaperSizeInPoints(options.paperSize, landscape), margins: getPageMargins(options, pageIndex) });
+}
+
+/**
+ * Adds a blank page if recto starts are enabled and the next page would be a verso page,
+ * so that the content added next starts on a recto page.
+ * @param doc The active PDFDocument instance.
+ * @param options The PDF generation options.
+ * @param theme The active syntax theme.
+ * @param fonts The registered fonts.
+ * @param landscape Whether the page is turned to landscape.
+ * @returns True if a blank page was added.
+ */
+function addBlankPageForRectoStart(doc: PDFKit.PDFDocument, options: PdfOptions, theme: SyntaxTheme, fonts: FontSet, landscape: boolean): boolean {
+    if (!options.rectoStarts || !isVersoPage(doc.bufferedPageRange().count)) {
+        return false;
+    }
+    addSizedPage(doc, options, landscape);
+    if (options.blankPages === 'marked') {
+        doc.font(getFontName(fonts, 'text', 'italic'))
+           .fontSize(10)
+           .fillColor(theme.headerFooterColor)
+           .text(BLANK_PAGE_NOTE, doc.page.margins.left, doc.page.height / 2, {
+               width: getContentWidth(doc.page.width, options),
+               align: 'center',
+               lineBreak: false
+           });
+    }
+    logger.debug(`Added a blank page (${options.blankPages}) so the next content starts on a recto page.`);
+    return true;
+}
+
+/**
+ * Whether pages that are not code pages (cover, Table of Contents) are landscape.
+ * In 'auto' mode they stay portrait; only code pages of files with long lines turn.
+ * @param options The PDF generation options.
+ * @returns True for landscape.
+ */
+function isLandscapeDocument(options: PdfOptions): boolean {
+    return options.orientation === 'landscape';
+}
+
+/**
+ * Calculates the width (in points) of each column when the content area is split into columns.
+ * @param contentWidth The width of the content area in points.
+ * @param columns The number of columns.
+ * @returns The width of one column in points.
+ */
+function getColumnWidth(contentWidth: number, columns: number): number {
+    return Math.max(0, (contentWidth - COLUMN_GAP * (columns - 1)) / columns);
 }
 
 /**
  * Calculates the available horizontal space (in points) for content on a page,
  * excluding left and right margins. Ensures result is non-negative.
- * @param doc The active PDFDocument instance.
+ * @param pageWidth The width of the page in points (pages may differ in orientation).
  * @param options The PDF generation options.
  * @returns The calculated content width in points.
  */
- function getContentWidth(doc: PDFKit.PDFDocument, options: PdfOptions): number {
-    const pageWidth = doc.page.width; // Use current page width
+ function getContentWidth(pageWidth: number, options: PdfOptions): number {
     const calculatedWidth = pageWidth - options.margins.left - options.margins.right;
     return Math.max(0, calculatedWidth); // Ensure non-negative width
 }
 
+/**
+ * Returns the zero-based index of the last buffered page, i.e. the page currently being laid out.
+ * @param doc The active PDFDocument instance (must use `bufferPages: true`).
+ * @returns The zero-based page index.
+ */
+function getCurrentPageIndex(doc: PDFKit.PDFDocument): number {
+    const range = doc.bufferedPageRange();
+    return range.start + range.count - 1;
+}
+
 
 // --- PDF Rendering Sections ---
 
@@ -83,12 +233,13 @@ function getContentHeight(doc: PDFKit.PDFDocument, options: PdfOptions): number
  * Adds a cover page to the PDF document. Includes basic error handling.
  * @param doc The active PDFDocument instance.
  * @param options The PDF generation options.
+ * @param fonts The registered fonts.
  * @param repoName The name of the repository being processed, displayed on the cover.
  */
-function addCoverPage(doc: PDFKit.PDFDocument, options: PdfOptions, repoName: string): void {
+function addCoverPage(doc: PDFKit.PDFDocument, options: PdfOptions, fonts: FontSet, repoName: string): void {
     try {
-        doc.addPage({ margins: options.margins }); // Add page with specified margins
-        const contentWidth = getContentWidth(doc, options);
+        addSizedPage(doc, options, isLandscapeDocument(options)); // Add page with specified size and margins
+        const contentWidth = getContentWidth(doc.page.width, options);
         const pageHeight = doc.page.height;
         const topMargin = doc.page.margins.top;
         const bottomMargin = doc.page.margins.bottom;
@@ -100,7 +251,7 @@ function addCoverPage(doc: PDFKit.PDFDocument, options: PdfOptions, repoName: st
         const dateY = repoY + 30;
 
         // Title
-        doc.font(options.textFont + '-Bold')
+        doc.font(pickFontForText(fonts, 'text', 'bold', options.title))
            .fontSize(24)
            .text(options.title, doc.page.margins.left, titleY, {
                 align: 'center',
@@ -108,15 +259,16 @@ function addCoverPage(doc: PDFKit.PDFDocument, options: PdfOptions, repoName: st
            });
 
         // Repository Name
-        doc.font(options.textFont)
+        const repoLabel = `Repository: ${repoName}`;
+        doc.font(pickFontForText(fonts, 'text', 'normal', repoLabel))
            .fontSize(16)
-           .text(`Repository: ${repoName}`, doc.page.margins.left, repoY, {
+           .text(repoLabel, doc.page.margins.left, repoY, {
                 align: 'center',
                 width: contentWidth
             });
 
         // Generation Date
-        doc.font(options.textFont) // Reset font style
+        doc.font(getFontName(fonts, 'text')) // Reset font style
            .fontSize(12)
            .fillColor('#555555') // Use a less prominent color
            .text(`Generated: ${new Date().toLocaleString()}`, doc.page.margins.left, dateY, {
@@ -133,81 +285,448 @@ function addCoverPage(doc: PDFKit.PDFDocument, options: PdfOptions, repoName: st
 }
 
 /**
- * Adds a Table of Contents (TOC) page(s) to the PDF document.
- * Groups files by directory, estimates page numbers, and renders the list with dot leaders.
- * Handles page breaks within the TOC itself.
+ * Adds the repository statistics section: file and line counts (code, comment and blank) per language with
+ * stacked bars, the largest files (each linking to the file) and the deepest directories. Charts are drawn
+ * with plain rectangles, so they print sharply at any size.
+ * @param doc The active PDFDocument instance.
+ * @param stats The statistics of the printed files.
+ * @param options The PDF generation options.
+ * @param theme The active syntax theme (used for text colors).
+ * @param fonts The registered fonts.
+ */
+function addStatisticsSection(doc: PDFKit.PDFDocument, stats: RepositoryStats, options: PdfOptions, theme: SyntaxTheme, fonts: FontSet): void {
+    try {
+        const landscape = isLandscapeDocument(options);
+        addSizedPage(doc, options, landscape);
+        const contentWidth = getContentWidth(doc.page.width, options);
+        const x = doc.page.margins.left;
+        doc.y = doc.page.margins.top;
+
+        const colors = options.printMode === 'mono' ? MONO_STATISTICS_COLORS : STATISTICS_COLORS;
+        const rowHeight = doc.font(getFontName(fonts, 'text')).fontSize(10).currentLineHeight() * 1.5;
+        const barHeight = 8;
+        const formatCount = (count: number) => count.toLocaleString('en-US');
+        const lineTotal = (counts: LineCounts) => counts.code + counts.comment + counts.blank;
+
+        /** Starts a new page if the next rows do not fit on the current one. */
+        const ensureSpace = (height: number) => {
+            if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+                addSizedPage(doc, options, landscape);
+                doc.y = doc.page.margins.top; // Reset Y to top margin
+            }
+        };
+        /** Prints one cell of a table row (right-aligned cells suit numbers). */
+        const drawCell = (text: string, cellX: number, y: number, width: number, style: { align?: 'left' | 'right'; bold?: boolean; muted?: boolean; size?: number } = {}) => {
+            if (width <= 0) return;
+            doc.font(pickFontForText(fonts, 'text', style.bold ? 'bold' : 'normal', text))
+               .fontSize(style.size ?? 10)
+               .fillColor(style.muted ? theme.headerFooterColor : theme.defaultColor)
+               .text(text, cellX, y, { width, align: style.align ?? 'left', lineBreak: false, ellipsis: true });
+        };
+        /** Draws a horizontal bar aligned with the text of a row. */
+        const drawBar = (barX: number, y: number, width: number, color: string) => {
+            if (width <= 0) return;
+            doc.rect(barX, y + 1.5, width, barHeight).fillColor(color).fill();
+        };
+        /** Prints a section heading, kept together with the first rows below it. */
+        const drawHeading = (heading: string) => {
+            ensureSpace(rowHeight * 4);
+            doc.y += rowHeight * 0.5;
+            const y = doc.y;
+            drawCell(heading, x, y, contentWidth, { bold: true, size: 12 });
+            doc.y = y + rowHeight * 1.2;
+        };
+
+        // --- Title and Summary (styled like the TOC title) ---
+        doc.font(pickFontForText(fonts, 'text', 'bold', STATISTICS_TITLE))
+           .fontSize(18)
+           .fillColor(theme.defaultColor)
+           .text(STATISTICS_TITLE, x, doc.y, { align: 'center', width: contentWidth });
+        doc.moveDown(1);
+        const { totals } = stats;
+        const summary = [
+            `${formatCount(totals.files)} file(s) \u00b7 ${formatCount(lineTotal(totals))} line(s) \u00b7 ${stats.languages.length} language(s)`,
+            `${formatCount(totals.code)} code \u00b7 ${formatCount(totals.comment)} comment \u00b7 ${formatCount(totals.blank)} blank`,
+        ];
+        for (const summaryLine of summary) {
+            const y = doc.y;
+            doc.font(getFontName(fonts, 'text')).fontSize(11).fillColor(theme.headerFooterColor)
+               .text(summaryLine, x, y, { align: 'center', width: contentWidth, lineBreak: false });
+            doc.y = y + rowHeight;
+        }
+        doc.y += rowHeight * 0.5;
+
+        // --- Lines by Language: a table with a stacked bar per language ---
+        drawHeading('Lines by Language');
+        const numberWidth = 55;
+        const nameWidth = Math.min(contentWidth * 0.25, 130);
+        const barX = x + nameWidth + numberWidth * 4 + TOC_DOT_PADDING * 2;
+        const barAreaWidth = x + contentWidth - barX;
+        const numberColumns: [string, (language: RepositoryStats['languages'][number]) => number][] = [
+            ['Files', language => language.files],
+            ['Code', language => language.code],
+            ['Comment', language => language.comment],
+            ['Blank', language => language.blank],
+        ];
+        let y = doc.y;
+        drawCell('Language', x, y, nameWidth, { bold: true, muted: true, size: 9 });
+        numberColumns.forEach(([label], index) => drawCell(label, x + nameWidth + numberWidth * index, y, numberWidth, { align: 'right', bold: true, muted: true, size: 9 }));
+        // Legend for the bar colors, in the bar column
+        let legendX = barX;
+        for (const kind of ['code', 'comment', 'blank'] as const) {
+            const label = kind.charAt(0).toUpperCase() + kind.slice(1);
+            doc.rect(legendX, y + 2, 7, 7).fillColor(colors[kind]).fill();
+            drawCell(label, legendX + 10, y, barAreaWidth, { muted: true, size: 9 });
+            legendX += 10 + doc.widthOfString(label) + TOC_DOT_PADDING * 2;
+        }
+        doc.y = y + rowHeight;
+
+        const maxLanguageLines = Math.max(1, ...stats.languages.map(lineTotal));
+        for (const language of stats.languages) {
+            ensureSpace(rowHeight);
+            y = doc.y;
+            drawCell(language.name, x, y, nameWidth);
+            numberColumns.forEach(([, value], index) => drawCell(formatCount(value(language)), x + nameWidth + numberWidth * index, y, numberWidth, { align: 'right' }));
+            let segmentX = barX;
+            for (const kind of ['code', 'comment', 'blank'] as const) {
+                const width = barAreaWidth * language[kind] / maxLanguageLines;
+                drawBar(segmentX, y, width, colors[kind]);
+                segmentX += width;
+            }
+            doc.y = y + rowHeight;
+        }
+
+        // --- Largest Files: each row links to the file ---
+        drawHeading('Largest Files');
+        const pathWidth = contentWidth * 0.45;
+        const countWidth = 70;
+        const fileBarX = x + pathWidth + TOC_DOT_PADDING * 2;
+        const fileBarWidth = x + contentWidth - countWidth - TOC_DOT_PADDING - fileBarX;
+        const maxFileLines = Math.max(1, ...stats.largestFiles.map(file => file.lines));
+        for (const file of stats.largestFiles) {
+            ensureSpace(rowHeight);
+            y = doc.y;
+            drawCell(file.relativePath, x, y, pathWidth);
+            drawBar(fileBarX, y, fileBarWidth * file.lines / maxFileLines, colors.code);
+            drawCell(`${formatCount(file.lines)} lines`, x + contentWidth - countWidth, y, countWidth, { align: 'right', muted: true });
+            doc.goTo(x, y, contentWidth, rowHeight, getFileDestinationName(file.relativePath));
+            doc.y = y + rowHeight;
+        }
+
+        // --- Deepest Directories ---
+        if (stats.deepestDirectories.length > 0) {
+            drawHeading('Deepest Directories');
+            const labelWidth = 110;
+            const dirBarWidth = x + contentWidth - labelWidth - TOC_DOT_PADDING - fileBarX;
+            const maxDepth = Math.max(...stats.deepestDirectories.map(dir => dir.depth));
+            for (const dir of stats.deepestDirectories) {
+                ensureSpace(rowHeight);
+                y = doc.y;
+                drawCell(`${dir.path}/`, x, y, pathWidth);
+                drawBar(fileBarX, y, dirBarWidth * dir.depth / maxDepth, colors.comment);
+                drawCell(`depth ${dir.depth} \u00b7 ${dir.files} file(s)`, x + contentWidth - labelWidth, y, labelWidth, { align: 'right', muted: true });
+                doc.y = y + rowHeight;
+            }
+        }
+
+        logger.info(`Added ${STATISTICS_TITLE} (${stats.languages.length} language(s)).`);
+    } catch (error) {
+        logger.error(`Failed to add ${STATISTICS_TITLE}: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Records where a single file entry was placed in the Table of Contents during the first
+ * layout pass, so its page number, dot leader and link can be filled in once the real
+ * starting page of the file is known.
+ */
+interface TocEntry {
+    /** Relative path of the file this entry refers to. */
+    relativePath: string;
+    /** Zero-based index of the buffered page the entry was written on. */
+    pageIndex: number;
+    /** X coordinate where the file name starts (includes directory indentation). */
+    x: number;
+    /** Y coordinate of the entry's text line. */
+    y: number;
+    /** X coordinate where the rendered file name ends. */
+    nameEndX: number;
+    /** Height of the entry line, used for the clickable link area. */
+    lineHeight: number;
+}
+
+/**
+ * A position in the flow of code: where a file's code ended, so the next file can continue
+ * right below it (or in the next column) when files are packed.
+ */
+interface FlowPosition {
+    /** The logical page number of the page. */
+    pageNumber: number;
+    /** Zero-based index of the column. */
+    column: number;
+    /** The Y coordinate just below the code block. */
+    y: number;
+    /** Whether the page is landscape. */
+    landscape: boolean;
+}
+
+/**
+ * A page of code, recorded during layout so its header and footer can be filled in once the page count is known.
+ */
+interface CodePage {
+    /** Zero-based index of the page. */
+    pageIndex: number;
+    /** The logical page number. */
+    pageNumber: number;
+    /** The file at the top of the page (further files may be packed below it). */
+    file: HighlightedFile;
+    /** The position of the page among the pages the file appears on (1-based). */
+    filePage: number;
+    /** The number of pages the file appears on. */
+    filePages: number;
+    /** The first and last line of the file that start on the page, or null if none does. */
+    firstLine: number | null;
+    lastLine: number | null;
+}
+
+/**
+ * Describes where a file's content ended up in the document after `renderCodeFile` laid it out.
+ */
+interface FileLayout {
+    /** Zero-based index of the page the file starts on. */
+    startPageIndex: number;
+    /** The logical page number of the page the file starts on. */
+    startPageNumber: number;
+    /** Where the file's code ended. */
+    end: FlowPosition;
+    /** The pages started by the file. */
+    pages: CodePage[];
+    /** Page index, logical page number and Y coordinate where each source line starts, indexed by `lineNumber - 1`. */
+    linePositions: { pageIndex: number; pageNumber: number; y: number }[];
+    /** The logical page number of the page each numbered annotation's marker is on, by annotation number. */
+    annotationPageNumbers: Map<number, number>;
+}
+
+/**
+ * Stands in for a run of unchanged lines hidden in diff mode.
+ */
+interface CollapsedRegion {
+    /** Number of consecutive unchanged lines that are not printed. */
+    collapsedLineCount: number;
+}
+
+/**
+ * Hides unchanged lines that are further than `contextLines` away from any change (diff mode).
+ * @param lines The file's lines, each carrying its change kind.
+ * @param contextLines Number of unchanged lines to keep before and after each change.
+ * @returns The lines to print, with each hidden run replaced by a `CollapsedRegion`.
+ */
+function collapseUnchangedLines(lines: HighlightedLine[], contextLines: number): (HighlightedLine | CollapsedRegion)[] {
+    // Distance (in lines) from each line to the nearest changed line, computed in two passes
+    const distances = lines.map(() => Number.POSITIVE_INFINITY);
+    let lastChange = Number.NEGATIVE_INFINITY;
+    lines.forEach((line, index) => {
+        if (line.change !== 'context') lastChange = index;
+        distances[index] = index - lastChange;
+    });
+    lastChange = Number.POSITIVE_INFINITY;
+    for (let index = lines.length - 1; index >= 0; index--) {
+        if (lines[index].change !== 'context') lastChange = index;
+        distances[index] = Math.min(distances[index], lastChange - index);
+    }
+
+    const items: (HighlightedLine | CollapsedRegion)[] = [];
+    lines.forEach((line, index) => {
+        if (distances[index] <= contextLines) {
+            items.push(line);
+            return;
+        }
+        const previous = items[items.length - 1];
+        if (previous && 'collapsedLineCount' in previous) {
+            previous.collapsedLineCount++;
+        } else {
+            items.push({ collapsedLineCount: 1 });
+        }
+    });
+    return items;
+}
+
+/**
+ * Builds the named destination used to link to the first page of a file.
+ * @param relativePath The file's path relative to the repository root.
+ * @returns A destination name unique to the file.
+ */
+function getFileDestinationName(relativePath: string): string {
+    return `file:${relativePath}`;
+}
+
+/**
+ * Registers a named destination on the current page so internal links can target it.
+ * PDFKit implements `addNamedDestination` at runtime, but `@types/pdfkit` does not declare it.
+ * @param doc The active PDFDocument instance.
+ * @param name The destination name.
+ * @param y Optional Y coordinate to scroll to; when omitted the viewer keeps its current position.
+ */
+function addNamedDestination(doc: PDFKit.PDFDocument, name: string, y?: number): void {
+    const destinationDoc = doc as PDFKit.PDFDocument & { addNamedDestination(name: string, ...args: unknown[]): void };
+    if (y === undefined) {
+        destinationDoc.addNamedDestination(name);
+    } else {
+        destinationDoc.addNamedDestination(name, 'XYZ', null, y, null);
+    }
+}
+
+/**
+ * Builds the named destination used to link to the marker of a numbered annotation.
+ * @param number The annotation's number.
+ * @returns A destination name unique to the annotation.
+ */
+function getAnnotationDestinationName(number: number): string {
+    return `annotation:${number}`;
+}
+
+/**
+ * Returns the color of an annotation's band and marker.
+ * @param annotation The annotation.
+ * @param options The PDF generation options.
+ * @returns The annotation's own color or the default color (gray in mono print mode).
+ */
+function getAnnotationColor(annotation: Annotation, options: PdfOptions): string {
+    if (options.printMode === 'mono') {
+        return MONO_ANNOTATION_COLOR;
+    }
+    return annotation.color ?? DEFAULT_ANNOTATION_COLOR;
+}
+
+/**
+ * Draws the callout marker of a numbered annotation: a filled circle in the annotation's color
+ * with the number in black or white, whichever contrasts more with it.
+ * @param doc The active PDFDocument instance.
+ * @param annotation The annotation (must have a number).
+ * @param centerX The X coordinate of the circle's center.
+ * @param centerY The Y coordinate of the circle's center.
+ * @param radius The radius of the circle in points.
+ * @param options The PDF generation options.
+ * @param fonts The registered fonts.
+ */
+function drawAnnotationMarker(
+    doc: PDFKit.PDFDocument,
+    annotation: NumberedAnnotation,
+    centerX: number,
+    centerY: number,
+    radius: number,
+    options: PdfOptions,
+    fonts: FontSet
+): void {
+    const color = getAnnotationColor(annotation, options);
+    const label = String(annotation.number);
+    const labelColor = getContrastRatio('#ffffff', color) >= getContrastRatio('#000000', color) ? '#ffffff' : '#000000';
+    doc.circle(centerX, centerY, radius).fillColor(color).fill();
+    // Numbers with several digits are set smaller so they stay inside the circle
+    const baseSize = radius * 1.2;
+    const labelWidth = doc.font(getFontName(fonts, 'text', 'bold')).fontSize(baseSize).widthOfString(label);
+    const labelSize = Math.min(baseSize, baseSize * (radius * 1.7) / labelWidth);
+    doc.fontSize(labelSize)
+       .fillColor(labelColor)
+       .text(label, centerX - radius, centerY - labelSize * 0.36, { width: radius * 2, align: 'center', lineBreak: false });
+}
+
+/**
+ * Returns the named destination of a source line, registering it on the line's page the first time it is needed
+ * (destinations are only created for lines something links to).
+ * @param doc The active PDFDocument instance (must use `bufferPages: true`).
+ * @param layout The layout of the line's file.
+ * @param relativePath The file's path relative to the repository root.
+ * @param lineNumber The line number (1-based).
+ * @param registered The names of the line destinations registered so far (updated).
+ * @returns The destination name, or null if the line was not printed (e.g. collapsed in diff mode).
+ */
+function getLineDestination(doc: PDFKit.PDFDocument, layout: FileLayout, relativePath: string, lineNumber: number, registered: Set<string>): string | null {
+    const position = layout.linePositions[lineNumber - 1];
+    if (!position) {
+        return null;
+    }
+    const name = `line:${relativePath}:${lineNumber}`;
+    if (!registered.has(name)) {
+        const currentPageIndex = getCurrentPageIndex(doc);
+        doc.switchToPage(position.pageIndex);
+        addNamedDestination(doc, name, Math.max(0, position.y - CODE_BLOCK_PADDING)); // Scroll to just above the line
+        doc.switchToPage(currentPageIndex);
+        registered.add(name);
+    }
+    return name;
+}
+
+/**
+ * Groups files by their directory for the Table of Contents.
+ * @param files The files to group.
+ * @returns A record mapping a normalized directory key ('/' for the root, '/dir/sub' otherwise) to its files.
+ */
+function groupFilesByDirectory(files: HighlightedFile[]): Record<string, HighlightedFile[]> {
+    const filesByDir: Record<string, HighlightedFile[]> = {};
+    files.forEach(file => {
+        const dir = path.dirname(file.relativePath);
+        const dirKey = (dir === '.' || dir === '/') ? '/' : `/${dir.replace(/\\/g, '/')}`; // Normalize key
+        if (!filesByDir[dirKey]) filesByDir[dirKey] = [];
+        filesByDir[dirKey].push(file);
+    });
+    return filesByDir;
+}
+
+/**
+ * Adds the Table of Contents (TOC) page(s) to the PDF document (first layout pass).
+ * Groups files by directory and renders directory headers and file names, handling page breaks.
+ * Page numbers are not known yet at this point; the position of every entry is recorded so that
+ * `finalizeTableOfContents` can write the real page numbers once all code pages have been laid out.
  * @param doc The active PDFDocument instance.
  * @param files An array of `HighlightedFile` objects to include in the TOC.
  * @param options The PDF generation options.
  * @param theme The active syntax theme (used for text colors).
- * @param pageNumberOffset The logical page number where the first actual code file will start.
- * @returns A record mapping file relative paths to their estimated starting page number.
+ * @param fonts The registered fonts.
+ * @returns The placement of every file entry written to the TOC.
  */
 function addTableOfContents(
     doc: PDFKit.PDFDocument,
     files: HighlightedFile[],
     options: PdfOptions,
     theme: SyntaxTheme,
-    pageNumberOffset: number
-): Record<string, number> {
-    const pageEstimates: Record<string, number> = {}; // Stores relativePath -> estimated startPage
+    fonts: FontSet
+): TocEntry[] {
+    const entries: TocEntry[] = [];
 
     try {
-        doc.addPage(); // Add the first page for the TOC
-        const contentWidth = getContentWidth(doc, options);
+        addSizedPage(doc, options, isLandscapeDocument(options)); // Add the first page for the TOC
+        const contentWidth = getContentWidth(doc.page.width, options);
         const startY = doc.page.margins.top;
         doc.y = startY; // Set starting Y position
 
         // --- TOC Title ---
-        doc.font(options.textFont + '-Bold')
+        doc.font(pickFontForText(fonts, 'text', 'bold', options.tocTitle))
            .fontSize(18)
            .fillColor(theme.defaultColor)
            .text(options.tocTitle, { align: 'center', width: contentWidth });
         doc.moveDown(2); // Space after title
 
         // --- Group Files by Directory ---
-        const filesByDir: Record<string, HighlightedFile[]> = {};
-        files.forEach(file => {
-            const dir = path.dirname(file.relativePath);
-            const dirKey = (dir === '.' || dir === '/') ? '/' : `/${dir.replace(/\\/g, '/')}`; // Normalize key
-            if (!filesByDir[dirKey]) filesByDir[dirKey] = [];
-            filesByDir[dirKey].push(file);
-        });
-
-        // --- Estimate Page Numbers ---
-        let estimatedCurrentPage = pageNumberOffset;
-        const codeLinesPerPage = Math.max(1, Math.floor(getContentHeight(doc, options) / (options.fontSize * DEFAULT_LINE_HEIGHT_MULTIPLIER)));
-
+        const filesByDir = groupFilesByDirectory(files);
         const sortedDirs = Object.keys(filesByDir).sort(); // Sort directory keys alphabetically
-        for (const dir of sortedDirs) {
-            // Sort files within each directory alphabetically
-            const sortedFiles = filesByDir[dir].sort((a, b) => a.relativePath.localeCompare(b.relativePath));
-            for (const file of sortedFiles) {
-                pageEstimates[file.relativePath] = estimatedCurrentPage; // Store estimated start page
-                const lineCount = file.highlightedLines.length;
-                // Estimate pages needed for this file (minimum 1 page)
-                const estimatedPagesForFile = Math.max(1, Math.ceil(lineCount / codeLinesPerPage));
-                estimatedCurrentPage += estimatedPagesForFile; // Increment estimated page counter
-            }
-        }
-        logger.debug(`Estimated total pages after code content: ${estimatedCurrentPage - 1}`);
 
         // --- Render TOC Entries ---
-        doc.font(options.textFont).fontSize(12); // Set default font for TOC entries
+        doc.font(getFontName(fonts, 'text')).fontSize(12); // Set default font for TOC entries
         const tocLineHeight = doc.currentLineHeight() * 1.1; // Approximate line height for TOC entries
         const tocEndY = doc.page.height - doc.page.margins.bottom; // Bottom boundary for TOC content
 
         for (const dir of sortedDirs) {
             // Check for page break before rendering directory header (need space for header + one entry)
             if (doc.y > tocEndY - (tocLineHeight * 2)) {
-                 doc.addPage();
+                 addSizedPage(doc, options, isLandscapeDocument(options));
                  doc.y = doc.page.margins.top; // Reset Y to top margin
             }
 
             // Render Directory Header (if not root)
             if (dir !== '/') {
                 doc.moveDown(1); // Add space before directory header
-                doc.font(options.textFont + '-Bold')
+                doc.font(pickFontForText(fonts, 'text', 'bold', dir))
                    .fillColor(theme.defaultColor)
                    .text(dir, { continued: false }); // Render directory name
                 doc.moveDown(0.5); // Space after directory header
@@ -218,23 +737,17 @@ function addTableOfContents(
             for (const file of sortedFiles) {
                  // Check for page break before rendering file entry
                  if (doc.y > tocEndY - tocLineHeight) {
-                     doc.addPage();
+                     addSizedPage(doc, options, isLandscapeDocument(options));
                      doc.y = doc.page.margins.top; // Reset Y to top margin
                  }
 
                 const fileName = path.basename(file.relativePath);
-                const pageNum = pageEstimates[file.relativePath]?.toString() || '?'; // Use estimated page
                 const indent = (dir === '/') ? 0 : TOC_INDENT; // Indent if not in root directory
                 const startX = doc.page.margins.left + indent;
-                const availableWidth = contentWidth - indent;
                 const currentY = doc.y; // Store Y position for precise placement on this line
 
-                // Calculate positions for filename, dots, and page number
-                doc.font(options.textFont).fontSize(12).fillColor(theme.defaultColor); // Ensure correct font for width calc
+                doc.font(pickFontForText(fonts, 'text', 'normal', fileName)).fontSize(12).fillColor(theme.defaultColor); // Ensure correct font for width calc
                 const nameWidth = doc.widthOfString(fileName);
-                const pageNumWidth = doc.widthOfString(pageNum);
-                const fileNameEndX = startX + nameWidth;
-                const pageNumStartX = doc.page.margins.left + contentWidth - pageNumWidth; // Position for right alignment
 
                 // Render file name (ensure it doesn't wrap)
                 doc.text(fileName, startX, currentY, {
@@ -243,33 +756,16 @@ function addTableOfContents(
                     continued: false // Stop after filename
                 });
 
-                // Render page number (explicitly positioned)
-                doc.text(pageNum, pageNumStartX, currentY, {
-                    width: pageNumWidth,
-                    lineBreak: false,
-                    continued: false // Stop after page number
+                // Remember where the entry went; page number and dots are added in the second pass
+                entries.push({
+                    relativePath: file.relativePath,
+                    pageIndex: getCurrentPageIndex(doc),
+                    x: startX,
+                    y: currentY,
+                    nameEndX: startX + nameWidth,
+                    lineHeight: tocLineHeight,
                 });
 
-                // Render dot leader in the space between filename and page number
-                const dotsStartX = fileNameEndX + TOC_DOT_PADDING;
-                const dotsEndX = pageNumStartX - TOC_DOT_PADDING;
-                const dotsAvailableWidth = dotsEndX - dotsStartX;
-
-                if (dotsAvailableWidth > doc.widthOfString('. ')) { // Check if there's enough space for at least one dot sequence
-                    const dot = '. ';
-                    const dotWidth = doc.widthOfString(dot);
-                    const numDots = Math.floor(dotsAvailableWidth / dotWidth);
-                    const dotsString = dot.repeat(numDots);
-
-                    doc.fillColor('#aaaaaa'); // Use a lighter color for dots
-                    doc.text(dotsString, dotsStartX, currentY, {
-                        width: dotsAvailableWidth, // Constrain dots width
-                        lineBreak: false,
-                        continued: false
-                    });
-                    doc.fillColor(theme.defaultColor); // Reset fill color
-                }
-
                 // Move down for the next TOC entry
                 doc.moveDown(0.6); // Adjust spacing as needed
             } // End loop through files in directory
@@ -282,67 +778,205 @@ function addTableOfContents(
         // Continue PDF generation even if TOC fails?
     }
 
-    return pageEstimates; // Return estimates (might be useful for debugging)
+    return entries;
 }
 
 /**
- * Renders the header section for a code page. Includes basic error handling.
+ * Completes the Table of Contents (second layout pass) once every file has been rendered.
+ * Switches back to the buffered TOC pages and writes the actual starting page number of each file,
+ * the dot leader, and a clickable link from the whole entry line to the file's first page.
+ * @param doc The active PDFDocument instance (must use `bufferPages: true`).
+ * @param entries The entry placements recorded by `addTableOfContents`.
+ * @param fileLayouts A record mapping file relative paths to their rendered layout.
+ * @param options The PDF generation options.
+ * @param theme The active syntax theme (used for text colors).
+ * @param fonts The registered fonts.
+ */
+function finalizeTableOfContents(
+    doc: PDFKit.PDFDocument,
+    entries: TocEntry[],
+    fileLayouts: Record<string, FileLayout>,
+    options: PdfOptions,
+    theme: SyntaxTheme,
+    fonts: FontSet
+): void {
+    try {
+        for (const entry of entries) {
+            const layout = fileLayouts[entry.relativePath];
+            doc.switchToPage(entry.pageIndex);
+
+            const contentWidth = getContentWidth(doc.page.width, options);
+            const rightEdgeX = doc.page.margins.left + contentWidth;
+            const pageNum = layout ? String(layout.startPageNumber) : '?';
+
+            doc.font(getFontName(fonts, 'text')).fontSize(12).fillColor(theme.defaultColor);
+            const pageNumWidth = doc.widthOfString(pageNum);
+            const pageNumStartX = rightEdgeX - pageNumWidth; // Position for right alignment
+
+            // Render page number (explicitly positioned)
+            doc.text(pageNum, pageNumStartX, entry.y, {
+                width: pageNumWidth,
+                lineBreak: false,
+                continued: false // Stop after page number
+            });
+
+            // Render dot leader in the space between filename and page number
+            const dotsStartX = entry.nameEndX + TOC_DOT_PADDING;
+            const dotsEndX = pageNumStartX - TOC_DOT_PADDING;
+            const dotsAvailableWidth = dotsEndX - dotsStartX;
+
+            if (dotsAvailableWidth > doc.widthOfString('. ')) { // Check if there's enough space for at least one dot sequence
+                const dot = '. ';
+                const dotWidth = doc.widthOfString(dot);
+                const numDots = Math.floor(dotsAvailableWidth / dotWidth);
+                const dotsString = dot.repeat(numDots);
+
+                doc.fillColor('#aaaaaa'); // Use a lighter color for dots
+                doc.text(dotsString, dotsStartX, entry.y, {
+                    width: dotsAvailableWidth, // Constrain dots width
+                    lineBreak: false,
+                    continued: false
+                });
+                doc.fillColor(theme.defaultColor); // Reset fill color
+            }
+
+            // Make the whole entry line a link to the file's first page
+            if (layout) {
+                doc.goTo(entry.x, entry.y, rightEdgeX - entry.x, entry.lineHeight, getFileDestinationName(entry.relativePath));
+            }
+        }
+        logger.debug(`Filled in page numbers for ${entries.length} Table of Contents entries.`);
+    } catch (error) {
+        logger.error(`Failed to finalize Table of Contents: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Draws the left, center and right sections of a header, footer or banner line in 9pt text.
+ * The center section is centered on the line and the right section right-aligned; the left section
+ * gets the space left of them (truncated with an ellipsis if it is too long).
  * @param doc The active PDFDocument instance.
- * @param file The `HighlightedFile` being rendered.
+ * @param sections The (filled) text of each section.
+ * @param x The X coordinate of the line's left edge.
+ * @param y The Y coordinate of the text.
+ * @param width The width of the line.
+ * @param color The text color.
+ * @param fonts The registered fonts.
+ */
+function drawLineSections(doc: PDFKit.PDFDocument, sections: PageTemplate, x: number, y: number, width: number, color: string, fonts: FontSet): void {
+    const textX = x + CODE_BLOCK_PADDING;
+    const textWidth = width - (CODE_BLOCK_PADDING * 2); // Constrain width by padding
+    /** Selects the text font (or a fallback covering the text) and returns the text's width. */
+    const prepareText = (text: string) => doc.font(pickFontForText(fonts, 'text', 'normal', text)).fontSize(9).fillColor(color).widthOfString(text);
+    // One point of slack keeps PDFKit from truncating text measured to fit exactly
+    const centerWidth = sections.center ? Math.min(textWidth, prepareText(sections.center) + 1) : 0;
+    const rightWidth = sections.right ? Math.min(textWidth, prepareText(sections.right) + 1) : 0;
+    const centerX = textX + (textWidth - centerWidth) / 2;
+    const rightX = textX + textWidth - rightWidth;
+    const leftEndX = sections.center ? centerX - CODE_BLOCK_PADDING : sections.right ? rightX - CODE_BLOCK_PADDING : textX + textWidth;
+
+    const drawSection = (text: string, sectionX: number, sectionWidth: number, align: 'left' | 'center' | 'right') => {
+        if (!text || sectionWidth <= 0) return;
+        prepareText(text);
+        doc.text(text, sectionX, y, {
+            width: sectionWidth,
+            align,
+            lineBreak: false, // Prevent wrapping
+            ellipsis: true // Add '...' if the text is too long
+        });
+    };
+    drawSection(sections.left, textX, leftEndX - textX, 'left');
+    drawSection(sections.center, centerX, centerWidth, 'center');
+    drawSection(sections.right, rightX, rightWidth, 'right');
+}
+
+/**
+ * Draws a header band: a background with text sections and a border line below.
+ * Used for page headers and for the banners of packed files.
+ * @param doc The active PDFDocument instance.
+ * @param sections The (filled) text of each section.
+ * @param x The X coordinate of the band's left edge.
+ * @param y The Y coordinate of the band's top edge.
+ * @param width The width of the band.
  * @param options The PDF generation options.
  * @param theme The active syntax theme.
+ * @param fonts The registered fonts.
  */
-function renderHeader(doc: PDFKit.PDFDocument, file: HighlightedFile, options: PdfOptions, theme: SyntaxTheme): void {
-    try {
-        const headerY = doc.page.margins.top; // Use actual top margin of the current page
-        // Calculate Y position to vertically center typical 9pt text within the header height
-        const headerContentY = headerY + (options.headerHeight - 9) / 2; // Adjust multiplier if needed
-        const contentWidth = getContentWidth(doc, options);
-        const startX = doc.page.margins.left;
+function drawHeaderBand(doc: PDFKit.PDFDocument, sections: PageTemplate, x: number, y: number, width: number, options: PdfOptions, theme: SyntaxTheme, fonts: FontSet): void {
+    // Calculate Y position to vertically center typical 9pt text within the header height
+    const bandContentY = y + (options.headerHeight - 9) / 2; // Adjust multiplier if needed
 
-        // Draw header background rectangle
-        doc.rect(startX, headerY, contentWidth, options.headerHeight)
+    // Draw band background rectangle (left out in mono print mode to save toner)
+    if (options.printMode !== 'mono') {
+        doc.rect(x, y, width, options.headerHeight)
            .fillColor(theme.headerFooterBackground)
            .fill();
+    }
 
-        // Draw file path (truncated with ellipsis if it exceeds available width)
-        doc.font(options.textFont) // Use standard text font
-           .fontSize(9) // Use a smaller font size for header/footer
-           .fillColor(theme.headerFooterColor)
-           .text(file.relativePath, startX + CODE_BLOCK_PADDING, headerContentY, {
-               width: contentWidth - (CODE_BLOCK_PADDING * 2), // Constrain width by padding
-               align: 'left',
-               lineBreak: false, // Prevent wrapping
-               ellipsis: true // Add '...' if path is too long
-           });
+    drawLineSections(doc, sections, x, bandContentY, width, theme.headerFooterColor, fonts);
 
-        // Draw border line below the header area
-        doc.moveTo(startX, headerY + options.headerHeight)
-           .lineTo(startX + contentWidth, headerY + options.headerHeight)
-           .lineWidth(0.5) // Use a thin line
-           .strokeColor(theme.borderColor)
-           .stroke();
-        // Reset fill color after potential changes
-        doc.fillColor(theme.defaultColor || '#000000');
+    // Draw border line below the band
+    doc.moveTo(x, y + options.headerHeight)
+       .lineTo(x + width, y + options.headerHeight)
+       .lineWidth(0.5) // Use a thin line
+       .strokeColor(theme.borderColor)
+       .stroke();
+    // Reset fill color after potential changes
+    doc.fillColor(theme.defaultColor || '#000000');
+}
+
+/**
+ * Renders the header section for a code page. Includes basic error handling.
+ * @param doc The active PDFDocument instance.
+ * @param sections The header text, with the placeholders filled in for this page.
+ * @param options The PDF generation options.
+ * @param theme The active syntax theme.
+ * @param fonts The registered fonts.
+ */
+function renderHeader(doc: PDFKit.PDFDocument, sections: PageTemplate, options: PdfOptions, theme: SyntaxTheme, fonts: FontSet): void {
+    try {
+        // Use the actual margins and width of the current page
+        drawHeaderBand(doc, sections, doc.page.margins.left, doc.page.margins.top, getContentWidth(doc.page.width, options), options, theme, fonts);
     } catch (error) {
-         logger.error(`Failed to render header for ${file.relativePath}: ${(error as Error).message}`);
+         logger.error(`Failed to render header: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Renders the banner introducing a file that does not start at the top of a page
+ * (packed below the previous file, or at the top of a further column). Includes basic error handling.
+ * @param doc The active PDFDocument instance.
+ * @param file The `HighlightedFile` being rendered.
+ * @param x The X coordinate of the column the file starts in.
+ * @param y The Y coordinate of the banner's top edge.
+ * @param width The width of the column.
+ * @param options The PDF generation options.
+ * @param theme The active syntax theme.
+ * @param fonts The registered fonts.
+ */
+function renderFileBanner(doc: PDFKit.PDFDocument, file: HighlightedFile, x: number, y: number, width: number, options: PdfOptions, theme: SyntaxTheme, fonts: FontSet): void {
+    try {
+        drawHeaderBand(doc, { left: file.relativePath, center: '', right: '' }, x, y, width, options, theme, fonts);
+    } catch (error) {
+         logger.error(`Failed to render banner for ${file.relativePath}: ${(error as Error).message}`);
     }
 }
 
 /**
  * Renders the footer section for a code page. Includes basic error handling.
  * @param doc The active PDFDocument instance.
- * @param currentPage The logical page number to display.
+ * @param sections The footer text, with the placeholders filled in for this page.
  * @param options The PDF generation options.
  * @param theme The active syntax theme.
+ * @param fonts The registered fonts.
  */
-function renderFooter(doc: PDFKit.PDFDocument, currentPage: number, options: PdfOptions, theme: SyntaxTheme): void {
+function renderFooter(doc: PDFKit.PDFDocument, sections: PageTemplate, options: PdfOptions, theme: SyntaxTheme, fonts: FontSet): void {
      try {
         // Calculate Y position for the top of the footer area
         const footerY = doc.page.height - doc.page.margins.bottom - options.footerHeight; // Use actual bottom margin
         // Calculate Y position to vertically center typical 9pt text
         const footerContentY = footerY + (options.footerHeight - 9) / 2;
-        const contentWidth = getContentWidth(doc, options);
+        const contentWidth = getContentWidth(doc.page.width, options);
         const startX = doc.page.margins.left;
 
          // Draw border line above the footer area
@@ -352,131 +986,416 @@ function renderFooter(doc: PDFKit.PDFDocument, currentPage: number, options: Pdf
             .strokeColor(theme.borderColor)
             .stroke();
 
-        // Draw page number centered in the footer
-        doc.font(options.textFont)
-           .fontSize(9) // Use smaller font size
-           .fillColor(theme.headerFooterColor)
-           .text(`Page ${currentPage}`, startX, footerContentY, {
-               width: contentWidth,
-               align: 'center'
-           });
+        drawLineSections(doc, sections, startX, footerContentY, contentWidth, theme.headerFooterColor, fonts);
          // Reset fill color
          doc.fillColor(theme.defaultColor || '#000000');
     } catch (error) {
-         logger.error(`Failed to render footer on page ${currentPage}: ${(error as Error).message}`);
+         logger.error(`Failed to render footer: ${(error as Error).message}`);
     }
 }
 
+/**
+ * Fills in the headers and footers of all code pages (second layout pass), once the total page count is known.
+ * @param doc The active PDFDocument instance (must use `bufferPages: true`).
+ * @param pages The code pages recorded by `renderCodeFile`.
+ * @param totalPages The number of the last page (blank pages left out of the numbering are not counted).
+ * @param options The PDF generation options.
+ * @param theme The active syntax theme.
+ * @param fonts The registered fonts.
+ * @param revision The git revision shown by the `{gitCommit}` and `{gitBranch}` placeholders.
+ * @param date The generation date shown by the `{date}` placeholder.
+ */
+function addPageHeadersAndFooters(
+    doc: PDFKit.PDFDocument,
+    pages: CodePage[],
+    totalPages: number,
+    options: PdfOptions,
+    theme: SyntaxTheme,
+    fonts: FontSet,
+    revision: RevisionInfo,
+    date: Date
+): void {
+    /** In duplex mode the left section is printed at the outer edge: on the right of recto pages. */
+    const alignToOuterEdge = (sections: PageTemplate, pageIndex: number): PageTemplate =>
+        (options.duplex && !isVersoPage(pageIndex)) ? { left: sections.right, center: sections.center, right: sections.left } : sections;
+    for (const page of pages) {
+        doc.switchToPage(page.pageIndex);
+        const lineRange = page.firstLine === null ? ''
+            : page.firstLine === page.lastLine ? String(page.firstLine) : `${page.firstLine}\u2013${page.lastLine}`;
+        const values: TemplateValues = {
+            file: page.file.relativePath,
+            dir: path.dirname(page.file.relativePath),
+            language: page.file.language,
+            page: String(page.pageNumber),
+            totalPages: String(totalPages),
+            filePage: String(page.filePage),
+            filePages: String(page.filePages),
+            lineRange,
+            date: date.toISOString().slice(0, 10), // YYYY-MM-DD
+            title: options.title,
+            gitCommit: revision.commit ?? '',
+            gitBranch: revision.branch ?? '',
+        };
+        if (options.headerHeight > 0) {
+            renderHeader(doc, alignToOuterEdge(fillPageTemplate(options.headerTemplate, values), page.pageIndex), options, theme, fonts);
+        }
+        if (options.footerHeight > 0) {
+            renderFooter(doc, alignToOuterEdge(fillPageTemplate(options.footerTemplate, values), page.pageIndex), options, theme, fonts);
+        }
+    }
+    logger.debug(`Added headers and footers to ${pages.length} code pages.`);
+}
+
 /**
  * Renders the highlighted code content for a single file onto the PDF document.
- * Handles page breaks, line numbers (if enabled), code wrapping, and applies theme styling.
+ * Handles page and column breaks, line numbers (if enabled), code wrapping, and applies theme styling.
  * Manages vertical positioning explicitly to avoid overlaps.
+ * Code flows down each column of a page before moving to the next column, then to a new page.
  *
  * @param doc The active PDFDocument instance.
  * @param file The `HighlightedFile` object containing the code and tokens.
  * @param options The PDF generation options.
  * @param theme The active syntax theme.
- * @param initialPageNumber The logical page number this file should start on (used for footer).
- * @returns The last logical page number used by this file.
+ * @param fonts The registered fonts.
+ * @param lastPageNumber The logical page number of the last page so far (used for footer).
+ * @param previousEnd Where the previous file ended if this file may be packed after it on the same page,
+ *                    or null to start the file on a new page.
+ * @param annotations The annotations of this file, in line order.
+ * @returns The layout of the file: its first page, where each line starts and where the file ended.
  */
 function renderCodeFile(
     doc: PDFKit.PDFDocument,
     file: HighlightedFile,
     options: PdfOptions,
     theme: SyntaxTheme,
-    initialPageNumber: number
-): number {
+    fonts: FontSet,
+    lastPageNumber: number,
+    previousEnd: FlowPosition | null,
+    annotations: NumberedAnnotation[]
+): FileLayout {
 
-    let currentPage = initialPageNumber; // Tracks the logical page number for the footer
-    const contentWidth = getContentWidth(doc, options);
-    const contentHeight = getContentHeight(doc, options);
+    let currentPage = lastPageNumber; // Tracks the logical page number for the footer
     const startY = options.margins.top + options.headerHeight; // Top of code content area
-    const endY = doc.page.height - options.margins.bottom - options.footerHeight; // Bottom of code content area
-    const startX = options.margins.left;
-    const lineHeight = options.fontSize * DEFAULT_LINE_HEIGHT_MULTIPLIER; // Calculated line height
+    let column = 0; // Zero-based index of the column the code is flowing in
+    let columnX = options.margins.left; // Left edge of that column
 
     // --- Calculate dimensions related to line numbers ---
-    const maxLineNumDigits = String(file.highlightedLines.length).length;
-    const lineNumberWidth = options.showLineNumbers
-        ? Math.max(maxLineNumDigits * options.fontSize * 0.65 + CODE_BLOCK_PADDING, 35 + CODE_BLOCK_PADDING) // Ensure min width
-        : 0; // No width if line numbers are disabled
+    // Removed lines in diff mode keep their base line numbers, which may exceed the head line count
+    const maxLineNumber = file.highlightedLines.reduce((max, line) => Math.max(max, line.lineNumber), 1);
+    const maxLineNumDigits = String(maxLineNumber).length;
     const lineNumberPaddingRight = 10; // Space between line number and start of code
-    // Calculate starting X coordinate for the code text
-    const codeStartX = startX + (options.showLineNumbers ? lineNumberWidth + lineNumberPaddingRight : CODE_BLOCK_PADDING);
+    /** Width of the line number gutter at a font size (0 if line numbers are disabled). */
+    const getLineNumberWidth = (size: number) => options.showLineNumbers
+        ? Math.max(maxLineNumDigits * size * 0.65 + CODE_BLOCK_PADDING, 35 + CODE_BLOCK_PADDING) // Ensure min width
+        : 0;
+    // In 'margin' mode, a file with notes gives part of each column to a notes column beside the code block
+    const hasMarginNotes = options.annotationNotes === 'margin' && annotations.some(annotation => annotation.number !== null);
+    /** Width of the code block in a column of the given width. */
+    const getBlockWidth = (width: number) => hasMarginNotes ? width - Math.min(MARGIN_NOTE_WIDTH, width * 0.3) - MARGIN_NOTE_GAP : width;
+    /** Usable width for the code text at a font size in a column of the given width (accounts for the gutter and padding). */
+    const getCodeWidth = (size: number, width: number) =>
+        getBlockWidth(width) - (options.showLineNumbers ? getLineNumberWidth(size) + lineNumberPaddingRight : CODE_BLOCK_PADDING) - CODE_BLOCK_PADDING;
+
+    /** Splits a line's tokens into runs that are each drawn with a single font (fallback fonts cover missing glyphs). */
+    const getLineRuns = (line: HighlightedLine): LayoutRun[] => line.tokens.flatMap(token =>
+        splitTextByFont(fonts, 'code', token.fontStyle ?? 'normal', token.text)
+            .map(run => ({ ...run, color: token.color, underline: token.underline ?? false })));
+
+    // The longest line (at the configured font size) decides the orientation in 'auto' mode and the size in 'shrink' mode
+    const measureAtBaseSize = createCharMeasure(doc, options.fontSize);
+    const longestLineWidth = (options.orientation === 'auto' || options.wrapMode === 'shrink')
+        ? file.highlightedLines.reduce((max, line) => Math.max(max, measureRuns(getLineRuns(line), measureAtBaseSize)), 0)
+        : 0;
+
+    // --- Page Orientation: in 'auto' mode, files whose longest line would wrap on a portrait page get landscape pages ---
+    const [portraitWidth] = getPaperSizeInPoints(options.paperSize, false);
+    const landscape = options.orientation === 'landscape'
+        || (options.orientation === 'auto' && longestLineWidth > getCodeWidth(options.fontSize, getColumnWidth(getContentWidth(portraitWidth, options), options.columns)));
+    // Measure the pages this file will get, not the page that is currently open
+    const [pageWidth, pageHeight] = getPaperSizeInPoints(options.paperSize, landscape);
+    const columnWidth = getColumnWidth(getContentWidth(pageWidth, options), options.columns);
+    const blockWidth = getBlockWidth(columnWidth);
+    const endY = pageHeight - options.margins.bottom - options.footerHeight; // Bottom of code content area
+    if (options.orientation === 'auto' && landscape) {
+        logger.info(`Using landscape pages for ${file.relativePath} so its long lines fit.`);
+    }
+
+    // --- Shrink Mode: reduce the font size of this file so its longest line fits ---
+    let fontSize = options.fontSize;
+    if (options.wrapMode === 'shrink') {
+        const availableWidth = getCodeWidth(options.fontSize, columnWidth); // Only grows as the font size shrinks
+        if (longestLineWidth > availableWidth) {
+            // Character widths scale linearly with the font size; round down to a tenth of a point
+            fontSize = Math.min(options.fontSize, Math.max(options.minFontSize, Math.floor(options.fontSize * availableWidth / longestLineWidth * 10) / 10));
+            logger.info(`Shrinking ${file.relativePath} to ${fontSize}pt so its longest line fits${fontSize === options.minFontSize ? ' (minimum size reached, longer lines wrap)' : ''}.`);
+        }
+    }
+    const lineHeight = fontSize * DEFAULT_LINE_HEIGHT_MULTIPLIER; // Calculated line height
+    const lineNumberWidth = getLineNumberWidth(fontSize);
+    // Offset of the code text from the left edge of its column
+    const codeOffsetX = options.showLineNumbers ? lineNumberWidth + lineNumberPaddingRight : CODE_BLOCK_PADDING;
     // Calculate the usable width for the code text (accounts for left/right padding)
-    const codeWidth = contentWidth - (codeStartX - startX) - CODE_BLOCK_PADDING;
+    const codeWidth = getCodeWidth(fontSize, columnWidth);
+    // Every character is measured once per font (monospace fonts arithmetically), keeping layout linear
+    const measureChar = createCharMeasure(doc, fontSize);
+    // Marker drawn at the end of lines cut off in truncate mode
+    const overflowMarkerFont = pickFontForText(fonts, 'code', 'normal', OVERFLOW_MARKER);
+    const overflowMarkerWidth = doc.font(overflowMarkerFont).fontSize(fontSize).widthOfString(OVERFLOW_MARKER);
+    // Color for line numbers, wrap indicators and overflow markers (falls back to gray if invisible on the gutter)
+    const gutterTextColor = (theme.lineNumberColor && theme.lineNumberColor !== theme.lineNumberBackground)
+                          ? theme.lineNumberColor
+                          : '#888888';
     // Indentation string and its width for wrapped lines
     const wrapIndent = ' '.repeat(WRAP_INDENT_MULTIPLIER);
-    const wrapIndentWidth = doc.font(options.codeFont).fontSize(options.fontSize).widthOfString(wrapIndent);
+    const wrapIndentWidth = doc.font(getFontName(fonts, 'code')).fontSize(fontSize).widthOfString(wrapIndent);
+    // Shared baseline so runs drawn with fallback fonts line up with the code font
+    const codeBaseline = -getFontAscent(fonts, 'code', fontSize);
+    // Vertical offset from a line's Y to the middle of lowercase letters, used for strikethrough
+    const strikeOffset = -codeBaseline - fontSize * 0.3;
+    // Vertical offset from a line's Y to just below the baseline, used for underlined tokens
+    const underlineOffset = -codeBaseline + fontSize * 0.12;
+
+
+    // In diff mode, long runs of unchanged lines are collapsed into a single marker row
+    const renderItems = (options.diff && Number.isFinite(options.diff.contextLines))
+        ? collapseUnchangedLines(file.highlightedLines, options.diff.contextLines)
+        : file.highlightedLines;
+    // Lay out every line up front, so the number of visual lines still to come is known when a code block is drawn
+    const itemLayouts = renderItems.map(item => ('collapsedLineCount' in item)
+        ? null
+        : layoutLine(getLineRuns(item), measureChar, codeWidth, codeWidth - wrapIndentWidth,
+            options.wrapMode === 'truncate' ? 'truncate' : 'wrap', overflowMarkerWidth));
+    let remainingRows = itemLayouts.reduce((sum, layout) => sum + (layout ? layout.visualLines.length : 1), 0);
+
+
+    // --- Page and Column Setup Helpers ---
+    const pages: CodePage[] = [];
+    let filePageCount = 0; // The number of pages the file appears on so far
+    let notesBottomY = 0; // Bottom of the last margin note in the current column
+    /** Moves the flow to a column of the current page. */
+    const moveToColumn = (index: number) => {
+        column = index;
+        notesBottomY = 0;
+        // Margins may differ between pages (mirrored in duplex mode)
+        columnX = doc.page.margins.left + index * (columnWidth + COLUMN_GAP);
+    };
 
+    /** Adds a new page for this file (its header and footer are added once all pages exist), and moves to its first column. */
+    const startPage = () => {
+        addSizedPage(doc, options, landscape);
+        currentPage++; // Increment the logical page number
+        filePageCount++;
+        pages.push({ pageIndex: getCurrentPageIndex(doc), pageNumber: currentPage, file, filePage: filePageCount, filePages: 0, firstLine: null, lastLine: null });
+        moveToColumn(0);
+    };
 
-    // --- Page Setup Helper ---
-    /** Sets up the header, footer, and background visuals for a new code page. Returns the starting Y coordinate for content. */
-    const setupPageVisuals = (): number => {
+    /**
+     * Draws the code block container (and line number gutter) for the part of the file placed in the current column,
+     * starting at `top`. Returns the starting Y coordinate for content.
+     */
+    const startCodeBlock = (top: number): number => {
+        const textStartY = top + CODE_BLOCK_PADDING / 2; // Includes top padding
         try {
-            renderHeader(doc, file, options, theme);
-            renderFooter(doc, currentPage, options, theme); // Use the current logical page number
-            const pageContentStartY = startY;
-            doc.y = pageContentStartY; // Reset internal Y cursor (though we manage drawing Y manually)
-
-            // Draw background container for the code block
-            doc.rect(startX, pageContentStartY, contentWidth, contentHeight)
+            doc.y = textStartY; // Reset internal Y cursor (though we manage drawing Y manually)
+            // The block fills the rest of the column, except that the block holding the end of a packed file
+            // stops below its last line so the next file can follow
+            const rowsThatFit = Math.floor((endY - CODE_BLOCK_PADDING - textStartY) / lineHeight + 0.001);
+            const blockHeight = (options.packFiles && remainingRows <= rowsThatFit)
+                ? remainingRows * lineHeight + CODE_BLOCK_PADDING
+                : endY - top;
+
+            // Draw background container for the code block (only its border in mono print mode, to save toner)
+            const fillBackgrounds = options.printMode !== 'mono';
+            doc.rect(columnX, top, blockWidth, blockHeight)
                .fillColor(theme.backgroundColor)
                .lineWidth(0.75)
-               .strokeColor(theme.borderColor)
-               .fillAndStroke(); // Fill and draw border
+               .strokeColor(theme.borderColor);
+            if (fillBackgrounds) {
+                doc.fillAndStroke(); // Fill and draw border
+            } else {
+                doc.stroke();
+            }
 
             // Draw line number gutter background and separator line if enabled
             if (options.showLineNumbers && lineNumberWidth > 0) {
-                doc.rect(startX, pageContentStartY, lineNumberWidth, contentHeight)
-                   .fillColor(theme.lineNumberBackground)
-                   .fill(); // Fill gutter background
+                if (fillBackgrounds) {
+                    doc.rect(columnX, top, lineNumberWidth, blockHeight)
+                       .fillColor(theme.lineNumberBackground)
+                       .fill(); // Fill gutter background
+                }
                 // Draw vertical separator line
-                doc.moveTo(startX + lineNumberWidth, pageContentStartY)
-                   .lineTo(startX + lineNumberWidth, pageContentStartY + contentHeight)
+                doc.moveTo(columnX + lineNumberWidth, top)
+                   .lineTo(columnX + lineNumberWidth, top + blockHeight)
                    .lineWidth(0.5)
                    .strokeColor(theme.borderColor)
                    .stroke();
             }
-             // Return the Y position where actual text content should start (includes top padding)
-             return pageContentStartY + CODE_BLOCK_PADDING / 2;
         } catch (setupError) {
-            logger.error(`Error setting up page visuals for ${file.relativePath}: ${(setupError as Error).message}`);
-            // Return startY as a fallback, though rendering might be broken
-            return startY;
+            logger.error(`Error setting up code block for ${file.relativePath}: ${(setupError as Error).message}`);
+            // Text is still placed at the expected position, though the background might be broken
         }
+        return textStartY;
     };
 
-    // --- Initial Page Setup ---
-    doc.addPage(); // Add the first page for this file
-    let currentLineY = setupPageVisuals(); // Set up visuals and get starting Y
+    /** Continues the code in the next column, or on a new page after the last column. Returns the new starting Y. */
+    const continueInNextColumn = (): number => {
+        if (column + 1 < options.columns) {
+            moveToColumn(column + 1);
+        } else {
+            startPage();
+        }
+        return startCodeBlock(startY);
+    };
 
+    // --- Initial Placement ---
+    // When packing, the file follows the previous one on the same page if its banner and a few lines fit
+    // below it (or at the top of the next column); otherwise it starts on a new page.
+    // With recto starts, files are only packed onto recto pages
+    let bannerY: number | null = null;
+    const canPack = previousEnd !== null && previousEnd.landscape === landscape
+        && !(options.rectoStarts && isVersoPage(getCurrentPageIndex(doc)));
+    if (previousEnd && canPack) {
+        moveToColumn(previousEnd.column);
+        const packedY = previousEnd.y + PACKED_FILE_GAP;
+        const minimumHeight = options.headerHeight + CODE_BLOCK_PADDING * 1.5 + Math.min(remainingRows, MIN_PACKED_LINES) * lineHeight;
+        if (packedY + minimumHeight <= endY) {
+            bannerY = packedY;
+        } else if (column + 1 < options.columns) {
+            moveToColumn(column + 1);
+            bannerY = startY;
+        }
+    }
+    let currentLineY: number;
+    if (bannerY === null) {
+        // Blank pages inserted for a recto start are counted in the page numbering unless they are 'uncounted'
+        if (addBlankPageForRectoStart(doc, options, theme, fonts, landscape) && options.blankPages === 'marked') {
+            currentPage++;
+        }
+        startPage(); // Add the first page for this file
+        addNamedDestination(doc, getFileDestinationName(file.relativePath)); // Target for TOC links
+        currentLineY = startCodeBlock(startY);
+    } else {
+        filePageCount = 1; // The file starts on the current page
+        renderFileBanner(doc, file, columnX, bannerY, columnWidth, options, theme, fonts);
+        addNamedDestination(doc, getFileDestinationName(file.relativePath), bannerY); // Target for TOC links
+        currentLineY = startCodeBlock(bannerY + options.headerHeight);
+    }
+    const startPageIndex = getCurrentPageIndex(doc);
+    const startPageNumber = currentPage;
+    const linePositions: FileLayout['linePositions'] = [];
+    const annotationPageNumbers: FileLayout['annotationPageNumbers'] = new Map();
+    const markedAnnotations = new Set<NumberedAnnotation>(); // Annotations whose marker has been drawn
+    const markerRadius = Math.max(3.5, fontSize * 0.5);
+
+    /** Draws the diff gutter band for one visual line of an added or removed source line. */
+    const drawChangeBand = (change: HighlightedLine['change'], y: number) => {
+        if (change !== 'added' && change !== 'removed') return;
+        doc.rect(columnX, y - (lineHeight - fontSize) / 2, DIFF_BAND_WIDTH, lineHeight)
+           .fillColor(change === 'added' ? DIFF_ADDED_COLOR : DIFF_REMOVED_COLOR)
+           .fill();
+    };
+
+    /** Returns the annotation whose band covers a line: the innermost (latest starting) range containing it. */
+    const findAnnotation = (lineNumber: number): NumberedAnnotation | undefined => {
+        let found: NumberedAnnotation | undefined;
+        for (const annotation of annotations) {
+            if (annotation.startLine <= lineNumber && lineNumber <= annotation.endLine) found = annotation;
+        }
+        return found;
+    };
+
+    /** Draws a translucent band behind one visual line of code text (not behind the line number). */
+    const drawLineBand = (color: string, y: number) => {
+        const bandX = columnX + (options.showLineNumbers ? lineNumberWidth : 0);
+        doc.save(); // Keeps the opacity from applying to the text drawn next
+        doc.rect(bandX, y - (lineHeight - fontSize) / 2, columnX + blockWidth - bandX, lineHeight)
+           .fillColor(color, ANNOTATION_BAND_OPACITY)
+           .fill();
+        doc.restore();
+    };
+
+    /** Draws the translucent band of an annotated line behind one visual line of its text. */
+    const drawAnnotationBand = (annotation: NumberedAnnotation | undefined, y: number) => {
+        if (!annotation) return;
+        drawLineBand(getAnnotationColor(annotation, options), y);
+    };
+
+    /** Emphasizes one visual line of a line with a comment marker (with `--emphasize-todos`). */
+    const drawMarkerBand = (line: HighlightedLine, y: number) => {
+        if (!options.emphasizeTodos || !line.markers || line.change === 'removed') return;
+        drawLineBand(options.printMode === 'mono' ? MONO_COMMENT_MARKER_COLOR : COMMENT_MARKER_COLOR, y);
+    };
+
+    /** Prints an annotation's note in the notes column beside the code block, below any earlier note in the column. */
+    const drawMarginNote = (annotation: NumberedAnnotation, y: number) => {
+        const note = annotation.note ?? '';
+        const noteX = columnX + blockWidth + MARGIN_NOTE_GAP;
+        const noteY = Math.max(y, notesBottomY);
+        const markerSpace = markerRadius * 2 + 3;
+        const textWidth = columnWidth - blockWidth - MARGIN_NOTE_GAP - markerSpace;
+        const noteFont = pickFontForText(fonts, 'text', 'normal', note);
+        const availableHeight = endY - noteY;
+        if (availableHeight < doc.font(noteFont).fontSize(MARGIN_NOTE_FONT_SIZE).currentLineHeight()) {
+            logger.warn(`No room left for note ${annotation.number} beside ${file.relativePath}:${annotation.startLine}; use --annotation-notes appendix to list every note.`);
+            return;
+        }
+        drawAnnotationMarker(doc, annotation, noteX + markerRadius, noteY + MARGIN_NOTE_FONT_SIZE / 2, markerRadius, options, fonts);
+        doc.font(noteFont)
+           .fontSize(MARGIN_NOTE_FONT_SIZE)
+           .fillColor(theme.headerFooterColor)
+           .text(note, noteX + markerSpace, noteY, { width: textWidth, height: availableHeight, ellipsis: true }); // Cut off at the bottom of the column
+        notesBottomY = Math.min(endY, noteY + doc.heightOfString(note, { width: textWidth })) + MARGIN_NOTE_FONT_SIZE / 2;
+    };
 
     // --- Main Rendering Loop (Iterate through source lines) ---
-    for (const line of file.highlightedLines) {
+    renderItems.forEach((item, itemIndex) => {
         const lineStartY = currentLineY; // Store the Y position where this source line begins rendering
 
-        // --- Page Break Check ---
+        // --- Column/Page Break Check ---
         // Check if rendering this line (at minimum height) would exceed the available content area
         if (lineStartY + lineHeight > endY - CODE_BLOCK_PADDING) {
-             doc.addPage(); // Add a new page
-             currentPage++; // Increment the logical page number
-             currentLineY = setupPageVisuals(); // Set up visuals and get new starting Y
+             currentLineY = continueInNextColumn(); // Continue in the next column or on a new page
+        }
+        remainingRows--;
+        const codeStartX = columnX + codeOffsetX; // Starting X coordinate for the code text
+
+        // --- Collapsed Unchanged Region (diff mode) ---
+        if ('collapsedLineCount' in item) {
+            const label = `\u00b7\u00b7\u00b7 ${item.collapsedLineCount} unchanged line${item.collapsedLineCount === 1 ? '' : 's'} \u00b7\u00b7\u00b7`;
+            doc.font(getFontName(fonts, 'code', 'italic'))
+               .fontSize(fontSize)
+               .fillColor(theme.lineNumberColor || '#888888')
+               .text(label, codeStartX, currentLineY, { lineBreak: false });
+            currentLineY += lineHeight;
+            return;
+        }
+        const line = item;
+        if (line.change !== 'removed') {
+            const pageIndex = getCurrentPageIndex(doc);
+            linePositions[line.lineNumber - 1] = { pageIndex, pageNumber: currentPage, y: currentLineY };
+            // Track the line range of the pages the file started, for the {lineRange} placeholder
+            const page = pages[pages.length - 1];
+            if (page && page.pageIndex === pageIndex) {
+                if (page.firstLine === null) page.firstLine = line.lineNumber;
+                page.lastLine = line.lineNumber;
+            }
         }
+        const annotation = line.change === 'removed' ? undefined : findAnnotation(line.lineNumber);
+        drawAnnotationBand(annotation, currentLineY);
+        drawMarkerBand(line, currentLineY);
+        drawChangeBand(line.change, currentLineY);
 
         // --- Draw Line Number ---
         if (options.showLineNumbers && lineNumberWidth > 0) {
             try {
-                // Determine a visible color for the line number, fallback to gray
-                const lnColor = (theme.lineNumberColor && theme.lineNumberColor !== theme.lineNumberBackground)
-                                ? theme.lineNumberColor
-                                : '#888888';
+                // Determine a visible color for the line number (removed lines are red in diff mode)
+                const lnColor = line.change === 'removed' ? DIFF_REMOVED_COLOR : gutterTextColor;
                 const numStr = String(line.lineNumber).padStart(maxLineNumDigits, ' '); // Format number string
-                const numX = startX + CODE_BLOCK_PADDING / 2; // X position within padding
+                const numX = columnX + CODE_BLOCK_PADDING / 2; // X position within padding
                 const numWidth = lineNumberWidth - CODE_BLOCK_PADDING; // Available width in gutter
 
-                doc.font(options.codeFont) // Ensure correct font
-                   .fontSize(options.fontSize)
+                doc.font(getFontName(fonts, 'code')) // Ensure correct font
+                   .fontSize(fontSize)
                    .fillColor(lnColor)
                    .text(numStr, numX, currentLineY, { // Draw at current line's Y
                        width: numWidth,
@@ -488,29 +1407,91 @@ function renderCodeFile(
             }
         }
 
+        // --- Draw Annotation Markers (and margin notes) on the first printed line of each range ---
+        if (line.change !== 'removed') {
+            let markerX = columnX + markerRadius + 1;
+            for (const candidate of annotations) {
+                if (candidate.number === null || markedAnnotations.has(candidate)
+                    || line.lineNumber < candidate.startLine || line.lineNumber > candidate.endLine) continue;
+                markedAnnotations.add(candidate);
+                drawAnnotationMarker(doc, candidate, markerX, currentLineY + fontSize / 2, markerRadius, options, fonts);
+                addNamedDestination(doc, getAnnotationDestinationName(candidate.number), currentLineY - lineHeight); // Target for appendix links
+                annotationPageNumbers.set(candidate.number, currentPage);
+                if (hasMarginNotes) drawMarginNote(candidate, currentLineY);
+                markerX += markerRadius * 2 + 1; // Markers of ranges starting on the same line sit side by side
+            }
+        }
+
         // --- Render Code Tokens (Handles Wrapping Internally) ---
         let currentX = codeStartX; // Reset X position for the start of code content for this line
-        let isFirstTokenOfLine = true; // Reset wrap flag for each new source line
+        let visualLineStartX = currentX; // Where the text of the current visual (possibly wrapped) line starts
+
+        /** Strikes through the text drawn on the current visual line if the source line was removed (diff mode). */
+        const strikeRemovedText = () => {
+            if (line.change !== 'removed' || currentX <= visualLineStartX) return;
+            const strikeY = currentLineY + strikeOffset;
+            doc.moveTo(visualLineStartX, strikeY)
+               .lineTo(currentX, strikeY)
+               .lineWidth(0.75)
+               .strokeColor(DIFF_REMOVED_COLOR)
+               .stroke();
+        };
 
-        /** Helper function to advance Y position and handle page breaks during line wrapping. */
+        /** Underlines a drawn segment of an underlined token (PDFKit's own underline needs a fixed text width). */
+        const underlineSegment = (x: number, width: number, color: string) => {
+            const underlineY = currentLineY + underlineOffset;
+            doc.moveTo(x, underlineY)
+               .lineTo(x + width, underlineY)
+               .lineWidth(0.5)
+               .strokeColor(color)
+               .stroke();
+        };
+
+        /**
+         * Makes the parts of a drawn segment that fall inside an import link clickable (jumping to the
+         * linked file) and underlines them.
+         * @param segment The segment just drawn at `currentX`.
+         * @param segmentStart The offset of the segment's first character in the line's text.
+         */
+        const linkSegment = (segment: LayoutSegment, segmentStart: number) => {
+            const segmentEnd = segmentStart + segment.text.length;
+            for (const link of line.links ?? []) {
+                if (link.end <= segmentStart || link.start >= segmentEnd) continue;
+                // Measure where the link starts and ends within the segment
+                let offset = segmentStart;
+                let linkX = currentX;
+                let linkEndX = currentX;
+                for (const char of segment.text) {
+                    const charWidth = measureChar(segment.font, char);
+                    if (offset < link.start) linkX += charWidth;
+                    if (offset < link.end) linkEndX += charWidth;
+                    offset += char.length;
+                }
+                doc.goTo(linkX, currentLineY - (lineHeight - fontSize) / 2, linkEndX - linkX, lineHeight, getFileDestinationName(link.target));
+                if (!segment.underline) underlineSegment(linkX, linkEndX - linkX, segment.color || theme.defaultColor);
+            }
+        };
+
+        /** Helper function to advance Y position and handle column and page breaks during line wrapping. */
         const moveToNextWrapLine = () => {
+            strikeRemovedText(); // Finish the visual line being left
             currentLineY += lineHeight; // Advance our managed Y position
-            // Check if the *new* position requires a page break
+            // Check if the *new* position requires a column or page break
             if (currentLineY + lineHeight > endY - CODE_BLOCK_PADDING) {
-                doc.addPage();
-                currentPage++;
-                currentLineY = setupPageVisuals(); // Setup new page, get new starting Y
+                currentLineY = continueInNextColumn(); // Continue in the next column or on a new page, get new starting Y
             }
-            // Set X for the wrapped line, applying indentation
-            currentX = codeStartX + wrapIndentWidth;
+            remainingRows--;
+            // Set X for the wrapped line (in the possibly new column), applying indentation
+            currentX = columnX + codeOffsetX + wrapIndentWidth;
+            visualLineStartX = currentX;
+            drawAnnotationBand(annotation, currentLineY);
+            drawMarkerBand(line, currentLineY);
+            drawChangeBand(line.change, currentLineY);
             // Draw wrap indicator in the line number gutter
             if (options.showLineNumbers && lineNumberWidth > 0) {
                 try {
-                    const wrapColor = (theme.lineNumberColor && theme.lineNumberColor !== theme.lineNumberBackground)
-                                    ? theme.lineNumberColor
-                                    : '#888888';
-                    doc.font(options.codeFont).fontSize(options.fontSize).fillColor(wrapColor)
-                       .text(WRAP_INDICATOR, startX + CODE_BLOCK_PADDING / 2, currentLineY, { // Draw at the new Y
+                    doc.font(getFontName(fonts, 'code')).fontSize(fontSize).fillColor(gutterTextColor)
+                       .text(WRAP_INDICATOR, columnX + CODE_BLOCK_PADDING / 2, currentLineY, { // Draw at the new Y
                            width: lineNumberWidth - CODE_BLOCK_PADDING,
                            align: 'right',
                            lineBreak: false
@@ -521,105 +1502,467 @@ function renderCodeFile(
             }
         };
 
-        // --- Token Loop (Iterate through tokens of the current source line) ---
-        for (const token of line.tokens) {
-            try {
-                // Set font and color for the current token
-                doc.font(options.codeFont + (token.fontStyle === 'bold' ? '-Bold' : token.fontStyle === 'italic' ? '-Oblique' : ''))
-                   .fontSize(options.fontSize)
-                   .fillColor(token.color || theme.defaultColor);
-
-                const tokenText = token.text;
-                // Skip empty tokens
-                if (!tokenText || tokenText.length === 0) {
-                    continue;
+        // --- Lay Out and Draw Code Tokens ---
+        const layout = itemLayouts[itemIndex]!; // Laid out up front
+        let lineOffset = 0; // Offset of the next segment in the line's text, for import links
+        layout.visualLines.forEach((segments, visualLineIndex) => {
+            if (visualLineIndex > 0) {
+                moveToNextWrapLine();
+            }
+            for (const segment of segments) {
+                try {
+                    doc.font(segment.font)
+                       .fontSize(fontSize)
+                       .fillColor(segment.color || theme.defaultColor);
+                    doc.text(segment.text, currentX, currentLineY, { continued: true, lineBreak: false, baseline: codeBaseline });
+                    if (segment.underline) underlineSegment(currentX, segment.width, segment.color || theme.defaultColor);
+                    if (line.links) linkSegment(segment, lineOffset);
+                } catch (segmentError) {
+                    logger.warn(`Error rendering text "${segment.text.substring(0, 20)}..." on line ${line.lineNumber} of ${file.relativePath}: ${(segmentError as Error).message}`);
                 }
-                const tokenWidth = doc.widthOfString(tokenText);
-
-                // --- Wrapping Logic ---
-                if (currentX + tokenWidth <= codeStartX + codeWidth) {
-                    // Token fits: Draw it and advance X
-                    doc.text(tokenText, currentX, currentLineY, { continued: true, lineBreak: false });
-                    currentX += tokenWidth;
-                } else {
-                    // Token needs wrapping: Process it segment by segment
-                    let remainingText = tokenText;
-
-                    // Move to the next line in the PDF before drawing the wrapped part,
-                    // but only if necessary (first token overflow or subsequent tokens).
-                    if (isFirstTokenOfLine && currentX === codeStartX) {
-                         moveToNextWrapLine(); // First token overflows immediately
-                    } else if (!isFirstTokenOfLine) {
-                         // Subsequent token overflows
-                         moveToNextWrapLine();
-                    }
-                    // If first token partially fit, loop handles moves.
-
-                    // Loop to draw segments of the remaining text
-                    while (remainingText.length > 0) {
-                        let fitsChars = 0;
-                        let currentSegmentWidth = 0;
-                        const availableWidth = (codeStartX + codeWidth) - currentX; // Width available
-
-                        // Determine how many characters fit
-                        for (let i = 1; i <= remainingText.length; i++) {
-                            const segment = remainingText.substring(0, i);
-                            const width = doc.widthOfString(segment);
-                            if (width <= availableWidth + 0.001) { // Tolerance
-                                fitsChars = i;
-                                currentSegmentWidth = width;
-                            } else {
-                                break;
-                            }
-                        }
-
-                        // Handle cases where not even one character fits
-                        if (fitsChars === 0 && remainingText.length > 0) {
-                            if (availableWidth <= 0) {
-                                // No space left, definitely move to next line and retry fitting
-                                moveToNextWrapLine();
-                                continue; // Re-evaluate fitting in the next iteration
-                            } else {
-                                // Force at least one character if space was available
-                                fitsChars = 1;
-                                currentSegmentWidth = doc.widthOfString(remainingText[0]);
-                                logger.warn(`Forcing character fit '${remainingText[0]}' on wrapped line ${line.lineNumber} of ${file.relativePath}.`);
-                            }
-                        }
-
-                        // Draw the segment that fits
-                        const textToDraw = remainingText.substring(0, fitsChars);
-                        doc.font(options.codeFont + (token.fontStyle === 'bold' ? '-Bold' : token.fontStyle === 'italic' ? '-Oblique' : ''))
-                           .fontSize(options.fontSize)
-                           .fillColor(token.color || theme.defaultColor);
-                        doc.text(textToDraw, currentX, currentLineY, { continued: true, lineBreak: false });
-
-                        // Update state for the next segment/token
-                        currentX += currentSegmentWidth;
-                        remainingText = remainingText.substring(fitsChars);
-
-                        // If there's still remaining text in this token, move to the next line
-                        if (remainingText.length > 0) {
-                            moveToNextWrapLine();
-                        }
-                    } // End while(remainingText)
-                } // End else (wrapping needed)
-            } catch (tokenError) {
-                 logger.warn(`Error rendering token "${token.text.substring(0, 20)}..." on line ${line.lineNumber} of ${file.relativePath}: ${(tokenError as Error).message}`);
-                 // Continue to next token
-            } finally {
-                 isFirstTokenOfLine = false; // Mark that we are past the first token for this source line
-            }
-        } // End for loop (tokens)
+                currentX += segment.width; // Advance by the measured width, so layout and drawing agree
+                lineOffset += segment.text.length;
+            }
+        });
+        // Mark text cut off in truncate mode
+        if (layout.truncated) {
+            doc.font(overflowMarkerFont)
+               .fontSize(fontSize)
+               .fillColor(gutterTextColor)
+               .text(OVERFLOW_MARKER, currentX, currentLineY, { continued: true, lineBreak: false, baseline: codeBaseline });
+        }
 
         // --- Advance Y for Next Source Line ---
         // After processing all tokens for the original source line, move our managed Y position down.
+        strikeRemovedText();
         currentLineY += lineHeight;
 
-    } // End for loop (lines)
+    }); // End loop (lines)
 
-    logger.info(`Rendered file ${file.relativePath} spanning pages ${initialPageNumber}-${currentPage}.`);
-    return currentPage; // Return the last logical page number used by this file
+    for (const page of pages) {
+        page.filePages = filePageCount;
+    }
+    logger.info(`Rendered file ${file.relativePath} spanning pages ${startPageNumber}-${currentPage}.`);
+    return {
+        startPageIndex,
+        startPageNumber,
+        linePositions,
+        annotationPageNumbers,
+        // A packed file follows below the code block, or below the notes beside it if they run further
+        end: { pageNumber: currentPage, column, y: Math.max(currentLineY + CODE_BLOCK_PADDING / 2, notesBottomY), landscape },
+        pages,
+    };
+}
+
+
+/**
+ * A section added after the code (such as an appendix), listed at the end of the PDF outline.
+ */
+interface BackMatterSection {
+    /** The section title shown in the outline. */
+    title: string;
+    /** Zero-based index of the section's first page. */
+    pageIndex: number;
+}
+
+/**
+ * Adds a section after the code. The section starts on a recto page if recto starts are enabled.
+ * @param doc The active PDFDocument instance.
+ * @param title The section title, used in the outline.
+ * @param options The PDF generation options.
+ * @param theme The active syntax theme.
+ * @param fonts The registered fonts.
+ * @param render Lays out the section, starting with adding its first page.
+ * @returns The section, and the number of logical pages it added (including a counted blank page before it).
+ */
+function addBackMatterSection(
+    doc: PDFKit.PDFDocument,
+    title: string,
+    options: PdfOptions,
+    theme: SyntaxTheme,
+    fonts: FontSet,
+    render: () => void
+): { section: BackMatterSection; pageCount: number } {
+    const countsBlankPage = addBlankPageForRectoStart(doc, options, theme, fonts, isLandscapeDocument(options)) && options.blankPages === 'marked';
+    const pageIndex = doc.bufferedPageRange().count; // The section starts on the next page
+    render();
+    const pageCount = doc.bufferedPageRange().count - pageIndex + (countsBlankPage ? 1 : 0);
+    return { section: { title, pageIndex }, pageCount };
+}
+
+/**
+ * Adds the annotations appendix: for every annotation with a note, its marker, file and line range and the
+ * page it is on (the whole line links back to the annotated lines), followed by the note.
+ * @param doc The active PDFDocument instance.
+ * @param annotations The annotations placed in the document, in document order.
+ * @param fileLayouts A record mapping file relative paths to their rendered layout.
+ * @param options The PDF generation options.
+ * @param theme The active syntax theme (used for text colors).
+ * @param fonts The registered fonts.
+ */
+function addAnnotationsAppendix(
+    doc: PDFKit.PDFDocument,
+    annotations: NumberedAnnotation[],
+    fileLayouts: Record<string, FileLayout>,
+    options: PdfOptions,
+    theme: SyntaxTheme,
+    fonts: FontSet
+): void {
+    try {
+        addSizedPage(doc, options, isLandscapeDocument(options));
+        const contentWidth = getContentWidth(doc.page.width, options);
+        doc.y = doc.page.margins.top;
+
+        // --- Appendix Title (styled like the TOC title) ---
+        doc.font(pickFontForText(fonts, 'text', 'bold', ANNOTATIONS_TITLE))
+           .fontSize(18)
+           .fillColor(theme.defaultColor)
+           .text(ANNOTATIONS_TITLE, doc.page.margins.left, doc.y, { align: 'center', width: contentWidth });
+        doc.moveDown(2); // Space after title
+
+        const markerRadius = 7;
+        const noteIndent = markerRadius * 2 + 8; // Notes line up to the right of the markers
+        const noteWidth = contentWidth - noteIndent;
+        let noteCount = 0;
+        for (const annotation of annotations) {
+            if (annotation.number === null || annotation.note === null) continue;
+            const pageNumber = fileLayouts[annotation.file]?.annotationPageNumbers.get(annotation.number);
+            const lines = annotation.startLine === annotation.endLine
+                ? `line ${annotation.startLine}`
+                : `lines ${annotation.startLine}\u2013${annotation.endLine}`;
+            const heading = `${annotation.file}, ${lines}`;
+            const pageLabel = pageNumber === undefined ? '' : `page ${pageNumber}`;
+
+            // Keep each heading together with the first lines of its note
+            const headingHeight = doc.font(pickFontForText(fonts, 'text', 'bold', heading)).fontSize(11).currentLineHeight() * 1.2;
+            const noteFont = pickFontForText(fonts, 'text', 'normal', annotation.note);
+            const noteStartHeight = Math.min(doc.font(noteFont).fontSize(10).heightOfString(annotation.note, { width: noteWidth }), doc.currentLineHeight() * 3);
+            if (doc.y + headingHeight + noteStartHeight > doc.page.height - doc.page.margins.bottom) {
+                addSizedPage(doc, options, isLandscapeDocument(options));
+                doc.y = doc.page.margins.top; // Reset Y to top margin
+            }
+            const x = doc.page.margins.left;
+            const y = doc.y;
+
+            drawAnnotationMarker(doc, annotation, x + markerRadius, y + 5.5, markerRadius, options, fonts);
+            doc.font(getFontName(fonts, 'text')).fontSize(11);
+            const pageLabelWidth = pageLabel ? doc.widthOfString(pageLabel) + 1 : 0;
+            doc.fillColor(theme.headerFooterColor)
+               .text(pageLabel, x + contentWidth - pageLabelWidth, y, { width: pageLabelWidth, lineBreak: false });
+            doc.font(pickFontForText(fonts, 'text', 'bold', heading))
+               .fontSize(11)
+               .fillColor(theme.defaultColor)
+               .text(heading, x + noteIndent, y, { width: noteWidth - pageLabelWidth - TOC_DOT_PADDING, lineBreak: false, ellipsis: true });
+            // Link the whole heading line back to the annotated lines
+            if (pageNumber !== undefined) {
+                doc.goTo(x, y, contentWidth, headingHeight, getAnnotationDestinationName(annotation.number));
+            }
+
+            doc.font(noteFont)
+               .fontSize(10)
+               .fillColor(theme.defaultColor)
+               .text(annotation.note, x + noteIndent, y + headingHeight, { width: noteWidth });
+            doc.moveDown(1); // Space before the next annotation
+            noteCount++;
+        }
+
+        logger.info(`Added ${ANNOTATIONS_TITLE} appendix (${noteCount} note(s)).`);
+    } catch (error) {
+        logger.error(`Failed to add ${ANNOTATIONS_TITLE} appendix: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Adds the symbol index: every definition of the printed files (functions, classes, interfaces, methods, ...)
+ * in alphabetical order, grouped by initial letter, with its file, line and page. Each entry links to its line.
+ * @param doc The active PDFDocument instance (must use `bufferPages: true`).
+ * @param files The rendered files.
+ * @param fileLayouts A record mapping file relative paths to their rendered layout.
+ * @param lineDestinations The names of the line destinations registered so far (updated).
+ * @param options The PDF generation options.
+ * @param theme The active syntax theme (used for text colors).
+ * @param fonts The registered fonts.
+ */
+function addSymbolIndex(
+    doc: PDFKit.PDFDocument,
+    files: HighlightedFile[],
+    fileLayouts: Record<string, FileLayout>,
+    lineDestinations: Set<string>,
+    options: PdfOptions,
+    theme: SyntaxTheme,
+    fonts: FontSet
+): void {
+    try {
+        /** The name used for sorting and grouping, without leading punctuation such as '_' or '#'. */
+        const sortName = (name: string) => name.replace(/^[^A-Za-z0-9]+/, '') || name;
+        const entries = files
+            .flatMap(file => extractSymbols(file).map(symbol => ({ symbol, file })))
+            .filter(({ symbol, file }) => fileLayouts[file.relativePath]?.linePositions[symbol.lineNumber - 1]) // Only printed lines
+            .sort((a, b) => sortName(a.symbol.name).localeCompare(sortName(b.symbol.name), undefined, { sensitivity: 'base' })
+                || a.symbol.name.localeCompare(b.symbol.name)
+                || a.file.relativePath.localeCompare(b.file.relativePath)
+                || a.symbol.lineNumber - b.symbol.lineNumber);
+
+        addSizedPage(doc, options, isLandscapeDocument(options));
+        const contentWidth = getContentWidth(doc.page.width, options);
+        doc.y = doc.page.margins.top;
+
+        // --- Index Title (styled like the TOC title) ---
+        doc.font(pickFontForText(fonts, 'text', 'bold', SYMBOL_INDEX_TITLE))
+           .fontSize(18)
+           .fillColor(theme.defaultColor)
+           .text(SYMBOL_INDEX_TITLE, doc.page.margins.left, doc.y, { align: 'center', width: contentWidth });
+        doc.moveDown(2); // Space after title
+
+        const entryHeight = doc.font(getFontName(fonts, 'text')).fontSize(10).currentLineHeight() * 1.25;
+        let currentGroup = '';
+        for (const { symbol, file } of entries) {
+            const group = sortName(symbol.name).charAt(0).toUpperCase();
+            // Check for page break before rendering the entry (and the letter heading starting a group)
+            const neededHeight = entryHeight * (group !== currentGroup ? 3 : 1);
+            if (doc.y + neededHeight > doc.page.height - doc.page.margins.bottom) {
+                addSizedPage(doc, options, isLandscapeDocument(options));
+                doc.y = doc.page.margins.top; // Reset Y to top margin
+            }
+            const x = doc.page.margins.left;
+
+            // --- Letter Heading ---
+            if (group !== currentGroup) {
+                currentGroup = group;
+                doc.moveDown(0.5);
+                doc.font(pickFontForText(fonts, 'text', 'bold', group))
+                   .fontSize(12)
+                   .fillColor(theme.defaultColor)
+                   .text(group, x, doc.y, { lineBreak: false });
+                doc.y += entryHeight * 1.2;
+            }
+
+            // --- Entry: name, location and page number ---
+            const y = doc.y;
+            const position = fileLayouts[file.relativePath].linePositions[symbol.lineNumber - 1];
+            const pageLabel = String(position.pageNumber);
+            const label = symbol.name + ((symbol.kind === 'function' || symbol.kind === 'method') ? '()' : '');
+            const location = `${symbol.container ? `${symbol.container} \u00b7 ` : ''}${file.relativePath}:${symbol.lineNumber}`;
+
+            doc.font(getFontName(fonts, 'text')).fontSize(10);
+            const pageLabelWidth = doc.widthOfString(pageLabel) + 1;
+            doc.fillColor(theme.defaultColor)
+               .text(pageLabel, x + contentWidth - pageLabelWidth, y, { width: pageLabelWidth, lineBreak: false });
+            const labelFont = pickFontForText(fonts, 'code', 'normal', label);
+            const labelWidth = Math.min(doc.font(labelFont).fontSize(10).widthOfString(label) + 1, contentWidth * 0.6);
+            doc.text(label, x + TOC_INDENT, y, { width: labelWidth, lineBreak: false, ellipsis: true });
+            const locationX = x + TOC_INDENT + labelWidth + TOC_DOT_PADDING * 2;
+            const locationWidth = x + contentWidth - pageLabelWidth - TOC_DOT_PADDING * 2 - locationX;
+            if (locationWidth > 0) {
+                doc.font(pickFontForText(fonts, 'text', 'normal', location))
+                   .fontSize(9)
+                   .fillColor(theme.headerFooterColor)
+                   .text(location, locationX, y + 0.5, { width: locationWidth, lineBreak: false, ellipsis: true });
+            }
+
+            // Make the whole entry line a link to the symbol's line
+            const destination = getLineDestination(doc, fileLayouts[file.relativePath], file.relativePath, symbol.lineNumber, lineDestinations);
+            if (destination) {
+                doc.goTo(x, y, contentWidth, entryHeight, destination);
+            }
+            doc.y = y + entryHeight;
+        }
+
+        logger.info(`Added ${SYMBOL_INDEX_TITLE} (${entries.length} symbols).`);
+    } catch (error) {
+        logger.error(`Failed to add ${SYMBOL_INDEX_TITLE}: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Adds the TODO index: the comment markers of the printed files grouped by tag (in the order of
+ * `options.todoTags`) and then by file, each with its line, text and page. Each entry links to its line.
+ * @param doc The active PDFDocument instance (must use `bufferPages: true`).
+ * @param files The rendered files, in document order.
+ * @param fileLayouts A record mapping file relative paths to their rendered layout.
+ * @param lineDestinations The names of the line destinations registered so far (updated).
+ * @param options The PDF generation options.
+ * @param theme The active syntax theme (used for text colors).
+ * @param fonts The registered fonts.
+ */
+function addTodoIndex(
+    doc: PDFKit.PDFDocument,
+    files: HighlightedFile[],
+    fileLayouts: Record<string, FileLayout>,
+    lineDestinations: Set<string>,
+    options: PdfOptions,
+    theme: SyntaxTheme,
+    fonts: FontSet
+): void {
+    try {
+        // Only markers on printed lines (not collapsed in diff mode) are listed
+        const entries = files.flatMap(file => file.highlightedLines
+            .filter(line => line.markers && line.change !== 'removed' && fileLayouts[file.relativePath]?.linePositions[line.lineNumber - 1])
+            .flatMap(line => line.markers!.map(marker => ({ marker, file, lineNumber: line.lineNumber }))));
+        const groups = options.todoTags
+            .map(tag => ({ tag, entries: entries.filter(entry => entry.marker.tag === tag) }))
+            .filter(group => group.entries.length > 0);
+
+        addSizedPage(doc, options, isLandscapeDocument(options));
+        const contentWidth = getContentWidth(doc.page.width, options);
+        doc.y = doc.page.margins.top;
+
+        // --- Index Title (styled like the TOC title) ---
+        doc.font(pickFontForText(fonts, 'text', 'bold', TODO_INDEX_TITLE))
+           .fontSize(18)
+           .fillColor(theme.defaultColor)
+           .text(TODO_INDEX_TITLE, doc.page.margins.left, doc.y, { align: 'center', width: contentWidth });
+        doc.moveDown(2); // Space after title
+
+        const entryHeight = doc.font(getFontName(fonts, 'text')).fontSize(10).currentLineHeight() * 1.25;
+        const lineLabelWidth = doc.font(getFontName(fonts, 'text')).fontSize(9).widthOfString('line 00000');
+        for (const group of groups) {
+            let currentFile = '';
+            group.entries.forEach((entry, index) => {
+                // Check for page break before rendering the entry (and the headings starting a tag or file)
+                const headingRows = index === 0 ? 3 : entry.file.relativePath !== currentFile ? 2 : 0;
+                if (doc.y + entryHeight * (headingRows + 1) > doc.page.height - doc.page.margins.bottom) {
+                    addSizedPage(doc, options, isLandscapeDocument(options));
+                    doc.y = doc.page.margins.top; // Reset Y to top margin
+                }
+                const x = doc.page.margins.left;
+
+                // --- Tag Heading ---
+                if (index === 0) {
+                    const heading = `${group.tag} (${group.entries.length})`;
+                    doc.moveDown(0.5);
+                    doc.font(pickFontForText(fonts, 'text', 'bold', heading))
+                       .fontSize(12)
+                       .fillColor(theme.defaultColor)
+                       .text(heading, x, doc.y, { lineBreak: false });
+                    doc.y += entryHeight * 1.2;
+                }
+
+                // --- File Heading ---
+                if (entry.file.relativePath !== currentFile) {
+                    currentFile = entry.file.relativePath;
+                    const headingY = doc.y;
+                    doc.font(pickFontForText(fonts, 'text', 'bold', currentFile))
+                       .fontSize(10)
+                       .fillColor(theme.defaultColor)
+                       .text(currentFile, x + TOC_INDENT, headingY, { width: contentWidth - TOC_INDENT, lineBreak: false, ellipsis: true });
+                    doc.y = headingY + entryHeight;
+                }
+
+                // --- Entry: line, marker text and page number ---
+                const y = doc.y;
+                const position = fileLayouts[currentFile].linePositions[entry.lineNumber - 1];
+                const pageLabel = String(position.pageNumber);
+                const entryX = x + TOC_INDENT * 2;
+
+                doc.font(getFontName(fonts, 'text')).fontSize(10);
+                const pageLabelWidth = doc.widthOfString(pageLabel) + 1;
+                doc.fillColor(theme.defaultColor)
+                   .text(pageLabel, x + contentWidth - pageLabelWidth, y, { width: pageLabelWidth, lineBreak: false });
+                doc.font(getFontName(fonts, 'text'))
+                   .fontSize(9)
+                   .fillColor(theme.headerFooterColor)
+                   .text(`line ${entry.lineNumber}`, entryX, y + 0.5, { width: lineLabelWidth, lineBreak: false });
+                const textX = entryX + lineLabelWidth + TOC_DOT_PADDING;
+                const textWidth = x + contentWidth - pageLabelWidth - TOC_DOT_PADDING * 2 - textX;
+                if (textWidth > 0 && entry.marker.text) {
+                    doc.font(pickFontForText(fonts, 'text', 'normal', entry.marker.text))
+                       .fontSize(10)
+                       .fillColor(theme.defaultColor)
+                       .text(entry.marker.text, textX, y, { width: textWidth, lineBreak: false, ellipsis: true });
+                }
+
+                // Make the whole entry line a link to the marker's line
+                const destination = getLineDestination(doc, fileLayouts[currentFile], currentFile, entry.lineNumber, lineDestinations);
+                if (destination) {
+                    doc.goTo(x, y, contentWidth, entryHeight, destination);
+                }
+                doc.y = y + entryHeight;
+            });
+        }
+
+        logger.info(`Added ${TODO_INDEX_TITLE} (${entries.length} comment marker(s)).`);
+    } catch (error) {
+        logger.error(`Failed to add ${TODO_INDEX_TITLE}: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Builds the PDF outline (bookmarks sidebar) once all pages exist.
+ * Mirrors the Table of Contents grouping: one node per directory, a child node per file pointing to
+ * the file's first page and, if `options.outlineSymbols` is set, a third level with the file's
+ * top-level symbols pointing to the page their definition is on.
+ * @param doc The active PDFDocument instance (must use `bufferPages: true`).
+ * @param files The rendered files.
+ * @param fileLayouts A record mapping file relative paths to their rendered layout.
+ * @param statisticsPageIndex Zero-based index of the first repository statistics page, or null if there are none.
+ * @param tocPageIndex Zero-based index of the first Table of Contents page, or null if there is no TOC.
+ * @param backMatter The sections added after the code, listed after the files.
+ * @param options The PDF generation options.
+ */
+function addDocumentOutline(
+    doc: PDFKit.PDFDocument,
+    files: HighlightedFile[],
+    fileLayouts: Record<string, FileLayout>,
+    statisticsPageIndex: number | null,
+    tocPageIndex: number | null,
+    backMatter: BackMatterSection[],
+    options: PdfOptions
+): void {
+    try {
+        // PDFKit points each outline item at the current page, so switch pages before adding items
+        if (statisticsPageIndex !== null) {
+            doc.switchToPage(statisticsPageIndex);
+            doc.outline.addItem(STATISTICS_TITLE);
+        }
+        if (tocPageIndex !== null) {
+            doc.switchToPage(tocPageIndex);
+            doc.outline.addItem(options.tocTitle);
+        }
+
+        const filesByDir = groupFilesByDirectory(files);
+        const sortedDirs = Object.keys(filesByDir).sort();
+        let symbolCount = 0;
+
+        for (const dir of sortedDirs) {
+            const sortedFiles = filesByDir[dir]
+                .filter(file => fileLayouts[file.relativePath])
+                .sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+            if (sortedFiles.length === 0) continue;
+
+            // Root files sit at the top level, like in the TOC; other directories get their own node
+            let parent: PDFKit.PDFOutline = doc.outline;
+            if (dir !== '/') {
+                doc.switchToPage(fileLayouts[sortedFiles[0].relativePath].startPageIndex);
+                parent = doc.outline.addItem(dir, { expanded: true });
+            }
+
+            for (const file of sortedFiles) {
+                const layout = fileLayouts[file.relativePath];
+                doc.switchToPage(layout.startPageIndex);
+                const fileItem = parent.addItem(path.basename(file.relativePath));
+
+                if (options.outlineSymbols) {
+                    for (const symbol of extractTopLevelSymbols(file)) {
+                        const position = layout.linePositions[symbol.lineNumber - 1];
+                        if (!position) continue;
+                        doc.switchToPage(position.pageIndex);
+                        const suffix = (symbol.kind === 'function' || symbol.kind === 'method') ? '()' : '';
+                        fileItem.addItem(symbol.name + suffix);
+                        symbolCount++;
+                    }
+                }
+            }
+        }
+
+        for (const section of backMatter) {
+            doc.switchToPage(section.pageIndex);
+            doc.outline.addItem(section.title);
+        }
+        logger.info(`Added PDF outline (${sortedDirs.length} directories, ${files.length} files${options.outlineSymbols ? `, ${symbolCount} symbols` : ''}).`);
+    } catch (error) {
+        logger.error(`Failed to add PDF outline: ${(error as Error).message}`);
+    }
 }
 
 
@@ -627,14 +1970,17 @@ function renderCodeFile(
 
 /**
  * Orchestrates the entire PDF generation process:
- * Finds files, highlights code, sets up the PDF document, adds cover page,
- * adds table of contents (if applicable), renders each file's code, and saves the PDF.
+ * Sets up the PDF document, adds cover page, adds table of contents (if applicable),
+ * renders each file's code and the appendices, fills in the table of contents page numbers and links, the page
+ * headers and footers, builds the PDF outline, and saves the PDF.
  * Includes error handling for stream operations.
  *
  * @param files An array of `HighlightedFile` objects already processed by the syntax highlighter.
  * @param options The `PdfOptions` controlling the generation process.
  * @param theme The active `SyntaxTheme` object.
  * @param repoName The name of the repository, used for the cover page.
+ * @param revision The git revision of the repository, used in header and footer templates.
+ * @param stats The repository statistics shown after the cover page, or null to leave them out.
  * @returns A Promise that resolves when the PDF has been successfully written, or rejects on error.
  * @throws Propagates errors from critical stages like stream writing or PDF finalization.
  */
@@ -642,7 +1988,9 @@ export async function generatePdf(
     files: HighlightedFile[],
     options: PdfOptions,
     theme: SyntaxTheme,
-    repoName: string
+    repoName: string,
+    revision: RevisionInfo,
+    stats: RepositoryStats | null = null
 ): Promise<void> {
     logger.info(`Starting PDF generation for ${files.length} files.`);
     const startTime = Date.now();
@@ -653,9 +2001,10 @@ export async function generatePdf(
     // Promise wrapper to handle stream events correctly
     return new Promise(async (resolve, reject) => {
         try {
+            const creationDate = new Date();
             // Initialize PDF document
             doc = new PDFDocument({
-                size: getPaperSizeInPoints(options.paperSize),
+                size: getPaperSizeInPoints(options.paperSize, isLandscapeDocument(options)),
                 margins: options.margins,
                 autoFirstPage: false,
                 bufferPages: true, // Enable buffering for potential page counting/manipulation
@@ -663,7 +2012,7 @@ export async function generatePdf(
                     Title: options.title,
                     Author: 'codepdf', // Consider making this configurable
                     Creator: 'codepdf',
-                    CreationDate: new Date(),
+                    CreationDate: creationDate,
                 }
             });
 
@@ -697,38 +2046,102 @@ export async function generatePdf(
             // --- Add PDF Content ---
             let physicalPageCount = 0; // Track actual pages added to the document
 
+            // Register code, text and fallback fonts (embedding font files if configured)
+            const fonts = registerFonts(doc, options);
+
             // 1. Cover Page
-            addCoverPage(doc, options, repoName);
+            addCoverPage(doc, options, fonts, repoName);
             physicalPageCount = doc.bufferedPageRange().count;
+            let uncountedPageCount = 0; // Blank pages left out of the page numbering
+
+            // 2. Repository Statistics
+            let statisticsPageIndex: number | null = null;
+            if (stats) {
+                if (addBlankPageForRectoStart(doc, options, theme, fonts, isLandscapeDocument(options))) {
+                    physicalPageCount = doc.bufferedPageRange().count;
+                    if (options.blankPages === 'uncounted') uncountedPageCount++;
+                }
+                statisticsPageIndex = physicalPageCount; // The statistics start on the next page
+                addStatisticsSection(doc, stats, options, theme, fonts);
+                physicalPageCount = doc.bufferedPageRange().count;
+            }
 
-            // 2. Table of Contents
-            let tocPages = 0;
-            let fileStartLogicalPageNumber = physicalPageCount + 1; // Logical page files start on
+            // 3. Table of Contents (first pass: entries only, page numbers are filled in later)
+            let tocEntries: TocEntry[] = [];
+            let tocPageIndex: number | null = null;
 
             if (files.length > 1) {
-                const tocStartPhysicalPage = physicalPageCount + 1;
-                addTableOfContents(doc, files, options, theme, fileStartLogicalPageNumber);
+                if (addBlankPageForRectoStart(doc, options, theme, fonts, isLandscapeDocument(options))) {
+                    physicalPageCount = doc.bufferedPageRange().count;
+                    if (options.blankPages === 'uncounted') uncountedPageCount++;
+                }
+                tocPageIndex = physicalPageCount; // The TOC starts on the next page
+                tocEntries = addTableOfContents(doc, files, options, theme, fonts);
                 const tocEndPhysicalPage = doc.bufferedPageRange().count;
-                tocPages = tocEndPhysicalPage - physicalPageCount;
+                const tocPages = tocEndPhysicalPage - physicalPageCount;
                 physicalPageCount = tocEndPhysicalPage;
-                fileStartLogicalPageNumber = physicalPageCount + 1; // Update logical start page after TOC
-                logger.info(`Table of Contents added (${tocPages} page(s)). Files will start on logical page ${fileStartLogicalPageNumber}. Current physical page count: ${physicalPageCount}`);
+                logger.info(`Table of Contents added (${tocPages} page(s)). Files will start on logical page ${physicalPageCount + 1}. Current physical page count: ${physicalPageCount}`);
             } else {
                  logger.info('Skipping Table of Contents (single file).');
             }
 
-            // 3. Render Code Files
-            let lastLogicalPageNumber = physicalPageCount; // Initialize with page count after cover/TOC
+            // 4. Render Code Files
+            let lastLogicalPageNumber = physicalPageCount - uncountedPageCount; // Initialize with page count after cover/TOC
+            let previousEnd: FlowPosition | null = null; // Where the previous file ended, when files are packed
+            const fileLayouts: Record<string, FileLayout> = {}; // relativePath -> where the file was laid out
 
             const sortedFiles = files.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+            // Annotations are numbered in the order they appear in the document
+            const annotations = numberAnnotations(options.annotations, sortedFiles);
 
             for (const file of sortedFiles) {
-                const currentFileStartLogicalPage = lastLogicalPageNumber + 1;
-                logger.debug(`Rendering file: ${file.relativePath}, starting on logical page ${currentFileStartLogicalPage}`);
-                // renderCodeFile handles adding pages internally and returns the last logical page number used
-                lastLogicalPageNumber = renderCodeFile(doc, file, options, theme, currentFileStartLogicalPage);
+                logger.debug(`Rendering file: ${file.relativePath}, after logical page ${lastLogicalPageNumber}`);
+                // renderCodeFile handles adding pages internally and reports where the file ended up
+                const fileAnnotations = annotations.filter(annotation => annotation.file === file.relativePath);
+                const layout = renderCodeFile(doc, file, options, theme, fonts, lastLogicalPageNumber, previousEnd, fileAnnotations);
+                fileLayouts[file.relativePath] = layout;
+                lastLogicalPageNumber = layout.end.pageNumber;
+                previousEnd = options.packFiles ? layout.end : null;
+            }
+
+            // 5. Appendices
+            const backMatter: BackMatterSection[] = [];
+            if (options.annotationNotes === 'appendix' && annotations.some(annotation => annotation.number !== null)) {
+                const { section, pageCount } = addBackMatterSection(doc, ANNOTATIONS_TITLE, options, theme, fonts,
+                    () => addAnnotationsAppendix(doc!, annotations, fileLayouts, options, theme, fonts));
+                backMatter.push(section);
+                lastLogicalPageNumber += pageCount;
+            }
+            const lineDestinations = new Set<string>(); // Lines linked to from the appendices
+            if (options.symbolIndex) {
+                const { section, pageCount } = addBackMatterSection(doc, SYMBOL_INDEX_TITLE, options, theme, fonts,
+                    () => addSymbolIndex(doc!, sortedFiles, fileLayouts, lineDestinations, options, theme, fonts));
+                backMatter.push(section);
+                lastLogicalPageNumber += pageCount;
+            }
+            if (options.todoIndex) {
+                if (sortedFiles.some(file => file.highlightedLines.some(line => line.markers))) {
+                    const { section, pageCount } = addBackMatterSection(doc, TODO_INDEX_TITLE, options, theme, fonts,
+                        () => addTodoIndex(doc!, sortedFiles, fileLayouts, lineDestinations, options, theme, fonts));
+                    backMatter.push(section);
+                    lastLogicalPageNumber += pageCount;
+                } else {
+                    logger.info(`Skipping ${TODO_INDEX_TITLE} (no comment markers found).`);
+                }
+            }
+
+            // 6. Table of Contents (second pass: real page numbers and links)
+            if (tocEntries.length > 0) {
+                finalizeTableOfContents(doc, tocEntries, fileLayouts, options, theme, fonts);
             }
 
+            // 7. Headers and footers (now that the total page count is known)
+            const codePages = sortedFiles.flatMap(file => fileLayouts[file.relativePath].pages);
+            addPageHeadersAndFooters(doc, codePages, lastLogicalPageNumber, options, theme, fonts, revision, creationDate);
+
+            // 8. PDF Outline (bookmarks)
+            addDocumentOutline(doc, sortedFiles, fileLayouts, statisticsPageIndex, tocPageIndex, backMatter, options);
+
             // --- Finalize PDF ---
             logger.info("Finalizing PDF document...");
             // This triggers the 'finish' event on the writeStream eventually
@@ -0,0 +1,107 @@
+import path from 'path';
+import hljs from 'highlight.js';
+import { HighlightedFile, HighlightedLine } from './utils/types';
+
+/** The number of files listed under "largest files". */
+const LARGEST_FILE_COUNT = 10;
+
+/** The number of directories listed under "deepest directories". */
+const DEEPEST_DIRECTORY_COUNT = 5;
+
+/**
+ * Line counts by kind: lines containing code, lines containing only comments, and blank lines.
+ */
+export interface LineCounts {
+    code: number;
+    comment: number;
+    blank: number;
+}
+
+/**
+ * The files and lines of one language.
+ */
+export interface LanguageStats extends LineCounts {
+    /** The highlight.js language identifier (e.g. 'typescript'). */
+    language: string;
+    /** The display name of the language (e.g. 'TypeScript'). */
+    name: string;
+    /** The number of files in the language. */
+    files: number;
+}
+
+/**
+ * The statistics shown on the repository statistics page.
+ */
+export interface RepositoryStats {
+    /** The number of files and their line counts across all languages. */
+    totals: LineCounts & { files: number };
+    /** The languages, most lines first. */
+    languages: LanguageStats[];
+    /** The files with the most lines, largest first. */
+    largestFiles: { relativePath: string; lines: number }[];
+    /** The most deeply nested directories containing files, deepest first, with the number of files directly inside. */
+    deepestDirectories: { path: string; depth: number; files: number }[];
+}
+
+/**
+ * Classifies a highlighted line: blank if it has no visible text, comment if all of its visible text
+ * is part of comments, and code otherwise.
+ * @param line The line, before whitespace expansion.
+ * @returns The kind of line.
+ */
+function classifyLine(line: HighlightedLine): keyof LineCounts {
+    const visibleTokens = line.tokens.filter(token => token.text.trim() !== '');
+    if (visibleTokens.length === 0) {
+        return 'blank';
+    }
+    return visibleTokens.every(token => token.comment) ? 'comment' : 'code';
+}
+
+/**
+ * Computes the statistics of the printed files: files and code, comment and blank lines per language,
+ * the largest files and the deepest directories. Lines removed in diff mode are not counted.
+ * Runs on the highlighted lines before whitespace expansion, so whitespace markers do not count as text.
+ * @param files The highlighted files.
+ * @returns The statistics.
+ */
+export function computeRepositoryStats(files: HighlightedFile[]): RepositoryStats {
+    const totals = { files: files.length, code: 0, comment: 0, blank: 0 };
+    const languages = new Map<string, LanguageStats>();
+    const fileSizes: RepositoryStats['largestFiles'] = [];
+    const directoryFiles = new Map<string, number>();
+
+    for (const file of files) {
+        let stats = languages.get(file.language);
+        if (!stats) {
+            stats = { language: file.language, name: hljs.getLanguage(file.language)?.name ?? file.language, files: 0, code: 0, comment: 0, blank: 0 };
+            languages.set(file.language, stats);
+        }
+        stats.files++;
+        let lineCount = 0;
+        for (const line of file.highlightedLines) {
+            if (line.change === 'removed') continue;
+            const kind = classifyLine(line);
+            stats[kind]++;
+            totals[kind]++;
+            lineCount++;
+        }
+        fileSizes.push({ relativePath: file.relativePath, lines: lineCount });
+        const dir = path.posix.dirname(file.relativePath);
+        if (dir !== '.') {
+            directoryFiles.set(dir, (directoryFiles.get(dir) ?? 0) + 1);
+        }
+    }
+
+    const lineTotal = (counts: LineCounts) => counts.code + counts.comment + counts.blank;
+    return {
+        totals,
+        languages: [...languages.values()].sort((a, b) => lineTotal(b) - lineTotal(a) || a.name.localeCompare(b.name)),
+        largestFiles: fileSizes
+            .sort((a, b) => b.lines - a.lines || a.relativePath.localeCompare(b.relativePath))
+            .slice(0, LARGEST_FILE_COUNT),
+        deepestDirectories: [...directoryFiles.entries()]
+            .map(([dir, count]) => ({ path: dir, depth: dir.split('/').length, files: count }))
+            .sort((a, b) => b.depth - a.depth || a.path.localeCompare(b.path))
+            .slice(0, DEEPEST_DIRECTORY_COUNT),
+    };
+}
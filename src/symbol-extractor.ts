@@ -0,0 +1,287 @@
+import { CodeSymbol, HighlightedFile } from './utils/types';
+import { logger } from './utils/logger';
+
+/**
+ * A single rule for recognising a definition on a source line.
+ * The first capture group of `pattern` must contain the symbol name.
+ */
+interface SymbolPattern {
+    /** Regular expression tested against the raw (unindented) source line. */
+    pattern: RegExp;
+    /** The kind of symbol produced when the pattern matches. */
+    kind: CodeSymbol['kind'];
+}
+
+/**
+ * A rule for recognising the members of a container such as a class or an impl block: the container's
+ * unindented opening line (the first capture group names it) and the definitions one indentation level inside it.
+ */
+interface MemberRule {
+    /** Regular expression matching the container's opening line. */
+    container: RegExp;
+    /** Patterns tested against the container's member lines (with the indentation removed). */
+    members: SymbolPattern[];
+}
+
+// --- Language Grammars ---
+
+/** Definitions recognised in TypeScript and JavaScript sources. */
+const JS_TS_PATTERNS: SymbolPattern[] = [
+    { pattern: /^(?:export\s+)?(?:default\s+)?(?:async\s+)?function\s*\*?\s*([A-Za-z_$][\w$]*)/, kind: 'function' },
+    { pattern: /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?class\s+([A-Za-z_$][\w$]*)/, kind: 'class' },
+    { pattern: /^(?:export\s+)?(?:declare\s+)?interface\s+([A-Za-z_$][\w$]*)/, kind: 'interface' },
+    { pattern: /^(?:export\s+)?(?:declare\s+)?(?:const\s+)?enum\s+([A-Za-z_$][\w$]*)/, kind: 'enum' },
+    { pattern: /^(?:export\s+)?(?:declare\s+)?type\s+([A-Za-z_$][\w$]*)\s*(?:<[^=]*>)?\s*=/, kind: 'type' },
+    { pattern: /^(?:export\s+)?(?:declare\s+)?(?:namespace|module)\s+([A-Za-z_$][\w$.]*)\s*\{/, kind: 'module' },
+    // Arrow functions and function expressions assigned to top-level constants
+    { pattern: /^(?:export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b|\([^)]*\)\s*(?::[^=]+)?=>|[A-Za-z_$][\w$]*\s*=>)/, kind: 'function' },
+];
+
+/** Definitions recognised in Python sources. */
+const PYTHON_PATTERNS: SymbolPattern[] = [
+    { pattern: /^(?:async\s+)?def\s+([A-Za-z_]\w*)/, kind: 'function' },
+    { pattern: /^class\s+([A-Za-z_]\w*)/, kind: 'class' },
+];
+
+/** Definitions recognised in Go sources. */
+const GO_PATTERNS: SymbolPattern[] = [
+    { pattern: /^func\s+\([^)]*\)\s*([A-Za-z_]\w*)/, kind: 'method' },
+    { pattern: /^func\s+([A-Za-z_]\w*)/, kind: 'function' },
+    { pattern: /^type\s+([A-Za-z_]\w*)\s+interface\b/, kind: 'interface' },
+    { pattern: /^type\s+([A-Za-z_]\w*)\s+struct\b/, kind: 'class' },
+    { pattern: /^type\s+([A-Za-z_]\w*)\b/, kind: 'type' },
+];
+
+/** Definitions recognised in Rust sources. */
+const RUST_PATTERNS: SymbolPattern[] = [
+    { pattern: /^(?:pub(?:\([^)]*\))?\s+)?(?:const\s+)?(?:async\s+)?(?:unsafe\s+)?(?:extern\s+"[^"]*"\s+)?fn\s+([A-Za-z_]\w*)/, kind: 'function' },
+    { pattern: /^(?:pub(?:\([^)]*\))?\s+)?struct\s+([A-Za-z_]\w*)/, kind: 'class' },
+    { pattern: /^(?:pub(?:\([^)]*\))?\s+)?enum\s+([A-Za-z_]\w*)/, kind: 'enum' },
+    { pattern: /^(?:pub(?:\([^)]*\))?\s+)?(?:unsafe\s+)?trait\s+([A-Za-z_]\w*)/, kind: 'interface' },
+    { pattern: /^(?:pub(?:\([^)]*\))?\s+)?mod\s+([A-Za-z_]\w*)/, kind: 'module' },
+    { pattern: /^(?:pub(?:\([^)]*\))?\s+)?type\s+([A-Za-z_]\w*)/, kind: 'type' },
+];
+
+/** Definitions recognised in Java, C#, Kotlin and Scala-like sources (type declarations are usually top-level). */
+const JVM_LIKE_PATTERNS: SymbolPattern[] = [
+    { pattern: /^(?:@\w+(?:\([^)]*\))?\s+)*(?:(?:public|private|protected|internal|abstract|final|sealed|static|partial|data|open|inner|enum|annotation)\s+)*(?:class|record|object|struct)\s+([A-Za-z_]\w*)/, kind: 'class' },
+    { pattern: /^(?:@\w+(?:\([^)]*\))?\s+)*(?:(?:public|private|protected|internal|abstract|sealed|static|partial|fun)\s+)*interface\s+([A-Za-z_]\w*)/, kind: 'interface' },
+    { pattern: /^(?:(?:public|private|protected|internal|static)\s+)*enum\s+([A-Za-z_]\w*)/, kind: 'enum' },
+    { pattern: /^(?:(?:public|private|protected|internal|inline|suspend|tailrec|operator|infix)\s+)*fun\s+(?:<[^>]*>\s*)?(?:[\w.]+\.)?([A-Za-z_]\w*)/, kind: 'function' },
+    { pattern: /^namespace\s+([A-Za-z_][\w.]*)/, kind: 'module' },
+];
+
+/** Definitions recognised in C and C++ sources. Functions are detected as unindented signatures not ending in ';'. */
+const C_LIKE_PATTERNS: SymbolPattern[] = [
+    { pattern: /^(?:template\s*<[^>]*>\s*)?(?:class|struct)\s+([A-Za-z_]\w*)\s*(?:final\s*)?(?::[^;]*)?\{?\s*$/, kind: 'class' },
+    { pattern: /^(?:typedef\s+)?enum\s+(?:class\s+)?([A-Za-z_]\w*)/, kind: 'enum' },
+    { pattern: /^namespace\s+([A-Za-z_]\w*)/, kind: 'module' },
+    { pattern: /^(?!(?:if|else|for|while|do|switch|return|case|typedef|using|#)\b)[A-Za-z_][\w\s*&:<>,]*?\b((?:[A-Za-z_]\w*::)*~?[A-Za-z_]\w*)\s*\([^;]*$/, kind: 'function' },
+];
+
+/** Definitions recognised in Ruby sources. */
+const RUBY_PATTERNS: SymbolPattern[] = [
+    { pattern: /^def\s+(?:self\.)?([A-Za-z_]\w*[?!=]?)/, kind: 'function' },
+    { pattern: /^class\s+([A-Z]\w*(?:::\w+)*)/, kind: 'class' },
+    { pattern: /^module\s+([A-Z]\w*(?:::\w+)*)/, kind: 'module' },
+];
+
+/** Definitions recognised in PHP sources. */
+const PHP_PATTERNS: SymbolPattern[] = [
+    { pattern: /^function\s+&?\s*([A-Za-z_]\w*)/, kind: 'function' },
+    { pattern: /^(?:(?:abstract|final|readonly)\s+)*class\s+([A-Za-z_]\w*)/, kind: 'class' },
+    { pattern: /^(?:interface|trait)\s+([A-Za-z_]\w*)/, kind: 'interface' },
+    { pattern: /^enum\s+([A-Za-z_]\w*)/, kind: 'enum' },
+];
+
+/** Definitions recognised in Swift sources. */
+const SWIFT_PATTERNS: SymbolPattern[] = [
+    { pattern: /^(?:(?:public|private|fileprivate|internal|open|final)\s+)*func\s+([A-Za-z_]\w*)/, kind: 'function' },
+    { pattern: /^(?:(?:public|private|fileprivate|internal|open|final)\s+)*(?:class|struct|actor)\s+([A-Za-z_]\w*)/, kind: 'class' },
+    { pattern: /^(?:(?:public|private|fileprivate|internal)\s+)*protocol\s+([A-Za-z_]\w*)/, kind: 'interface' },
+    { pattern: /^(?:(?:public|private|fileprivate|internal|indirect)\s+)*enum\s+([A-Za-z_]\w*)/, kind: 'enum' },
+];
+
+// --- Member Grammars ---
+
+/** Methods of TypeScript and JavaScript classes (constructors and control statements are skipped). */
+const JS_TS_MEMBERS: MemberRule = {
+    container: /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?class\s+([A-Za-z_$][\w$]*)/,
+    members: [
+        { pattern: /^(?:(?:public|private|protected|static|readonly|async|abstract|override|get|set)\s+)*\*?\s*(?!(?:if|for|while|switch|catch|return|super|constructor)\b)(#?[A-Za-z_$][\w$]*)\s*(?:<[^>]*>)?\s*\([^;]*$/, kind: 'method' },
+    ],
+};
+
+/** Methods of Python classes (dunder methods such as `__init__` are skipped). */
+const PYTHON_MEMBERS: MemberRule = {
+    container: /^class\s+([A-Za-z_]\w*)/,
+    members: [
+        { pattern: /^(?:async\s+)?def\s+(?!__\w+__\b)([A-Za-z_]\w*)/, kind: 'method' },
+    ],
+};
+
+/** Functions of Rust impl blocks and traits, named after the implementing type or the trait. */
+const RUST_MEMBERS: MemberRule = {
+    container: /^(?:unsafe\s+)?(?:impl(?:\s*<[^>]*>)?\s+(?:[\w:]+(?:<[^>]*>)?\s+for\s+)?|(?:pub(?:\([^)]*\))?\s+)?(?:unsafe\s+)?trait\s+)([A-Za-z_]\w*)/,
+    members: [
+        { pattern: /^(?:pub(?:\([^)]*\))?\s+)?(?:const\s+)?(?:async\s+)?(?:unsafe\s+)?(?:extern\s+"[^"]*"\s+)?fn\s+([A-Za-z_]\w*)/, kind: 'method' },
+    ],
+};
+
+/** Methods of Java, C#, Kotlin and Scala-like classes: Kotlin `fun`, Scala `def`, or a return type followed by a name and a parameter list. */
+const JVM_LIKE_MEMBERS: MemberRule = {
+    container: /^(?:@\w+(?:\([^)]*\))?\s+)*(?:(?:public|private|protected|internal|abstract|final|sealed|static|partial|data|open|inner|enum|annotation|fun|case)\s+)*(?:class|record|object|struct|interface|trait)\s+([A-Za-z_]\w*)/,
+    members: [
+        { pattern: /^(?:(?:public|private|protected|internal|override|open|abstract|final|inline|suspend|tailrec|operator|infix)\s+)*fun\s+(?:<[^>]*>\s*)?(?:[\w.]+\.)?([A-Za-z_]\w*)/, kind: 'method' },
+        { pattern: /^(?:(?:override|private|protected|final|implicit)\s+)*def\s+([A-Za-z_]\w*)/, kind: 'method' },
+        { pattern: /^(?:@\w+(?:\([^)]*\))?\s+)*(?:(?:public|private|protected|internal|static|final|abstract|synchronized|native|override|virtual|async|default)\s+)*(?:<[^>]*>\s*)?(?!(?:if|for|while|switch|catch|return|new|else|throw|using|lock)\b)[\w.<>\[\]?,]+\s+(?!(?:if|for|while|switch|catch|return|new|else|throw|using|lock)\b)([A-Za-z_]\w*)\s*\([^;=]*$/, kind: 'method' },
+    ],
+};
+
+/** Methods of Ruby classes and modules. */
+const RUBY_MEMBERS: MemberRule = {
+    container: /^(?:class|module)\s+([A-Z]\w*(?:::\w+)*)/,
+    members: [
+        { pattern: /^def\s+(?:self\.)?([A-Za-z_]\w*[?!=]?)/, kind: 'method' },
+    ],
+};
+
+/** Methods of PHP classes, interfaces, traits and enums (magic methods such as `__construct` are skipped). */
+const PHP_MEMBERS: MemberRule = {
+    container: /^(?:(?:abstract|final|readonly)\s+)*(?:class|interface|trait|enum)\s+([A-Za-z_]\w*)/,
+    members: [
+        { pattern: /^(?:(?:public|private|protected|static|abstract|final)\s+)*function\s+&?\s*(?!__)([A-Za-z_]\w*)/, kind: 'method' },
+    ],
+};
+
+/** Methods of Swift types, extensions and protocols. */
+const SWIFT_MEMBERS: MemberRule = {
+    container: /^(?:(?:public|private|fileprivate|internal|open|final|indirect)\s+)*(?:class|struct|actor|enum|extension|protocol)\s+([A-Za-z_]\w*)/,
+    members: [
+        { pattern: /^(?:(?:public|private|fileprivate|internal|open|final|override|static|class|mutating|nonmutating)\s+)*func\s+([A-Za-z_]\w*)/, kind: 'method' },
+    ],
+};
+
+/**
+ * A mapping from highlight.js language identifiers (as stored on `HighlightedFile.language`)
+ * to the grammar used to find top-level definitions in files of that language.
+ */
+const SYMBOL_PATTERNS: Record<string, SymbolPattern[]> = {
+    'typescript': JS_TS_PATTERNS,
+    'javascript': JS_TS_PATTERNS,
+    'python': PYTHON_PATTERNS,
+    'go': GO_PATTERNS,
+    'rust': RUST_PATTERNS,
+    'java': JVM_LIKE_PATTERNS,
+    'csharp': JVM_LIKE_PATTERNS,
+    'kotlin': JVM_LIKE_PATTERNS,
+    'scala': JVM_LIKE_PATTERNS,
+    'groovy': JVM_LIKE_PATTERNS,
+    'c': C_LIKE_PATTERNS,
+    'cpp': C_LIKE_PATTERNS,
+    'objectivec': C_LIKE_PATTERNS,
+    'ruby': RUBY_PATTERNS,
+    'php': PHP_PATTERNS,
+    'swift': SWIFT_PATTERNS,
+};
+
+/**
+ * A mapping from highlight.js language identifiers to the rule used to find methods inside containers.
+ * C and C++ are left out: member functions are mostly declared in the class and defined at the top level.
+ * Go methods are declared at the top level and found by `GO_PATTERNS`.
+ */
+const MEMBER_RULES: Record<string, MemberRule> = {
+    'typescript': JS_TS_MEMBERS,
+    'javascript': JS_TS_MEMBERS,
+    'python': PYTHON_MEMBERS,
+    'rust': RUST_MEMBERS,
+    'java': JVM_LIKE_MEMBERS,
+    'csharp': JVM_LIKE_MEMBERS,
+    'kotlin': JVM_LIKE_MEMBERS,
+    'scala': JVM_LIKE_MEMBERS,
+    'groovy': JVM_LIKE_MEMBERS,
+    'ruby': RUBY_MEMBERS,
+    'php': PHP_MEMBERS,
+    'swift': SWIFT_MEMBERS,
+};
+
+// --- Extraction ---
+
+/**
+ * Finds the first pattern matching a line.
+ * @param line The line, without indentation.
+ * @param patterns The patterns to try, in order.
+ * @returns The symbol name and kind, or null if no pattern matches.
+ */
+function matchSymbol(line: string, patterns: SymbolPattern[]): { name: string; kind: CodeSymbol['kind'] } | null {
+    for (const { pattern, kind } of patterns) {
+        const match = line.match(pattern);
+        if (match && match[1]) {
+            return { name: match[1], kind }; // First matching rule wins
+        }
+    }
+    return null;
+}
+
+/**
+ * Extracts the definitions of a highlighted file: top-level definitions (functions, classes, interfaces, ...)
+ * and the methods of its classes (and impl blocks, modules, ...).
+ * Top-level definitions start in the first column; methods are the definitions found one indentation level
+ * inside a container, so nested functions and statements in method bodies are skipped.
+ * Files whose language has no known grammar yield an empty list.
+ *
+ * @param file The `HighlightedFile` whose `language` selects the grammar to use.
+ * @returns The symbols found, in source order.
+ */
+export function extractSymbols(file: HighlightedFile): CodeSymbol[] {
+    const patterns = SYMBOL_PATTERNS[file.language];
+    if (!patterns) {
+        return []; // No grammar for this language
+    }
+    const memberRule = MEMBER_RULES[file.language];
+
+    const symbols: CodeSymbol[] = [];
+    const lines = file.content.split(/\r?\n/);
+    let container: string | null = null; // The container whose body is being read
+    let memberIndent: string | null = null; // The indentation of the container's members (set by its first indented line)
+
+    lines.forEach((line, index) => {
+        if (!line.trim()) {
+            return;
+        }
+        const indent = line.match(/^\s*/)![0];
+        if (indent) {
+            // Indented lines are only of interest as members of a container
+            if (container === null) return;
+            memberIndent = memberIndent ?? indent;
+            const member = indent === memberIndent ? matchSymbol(line.substring(indent.length), memberRule.members) : null;
+            if (member) {
+                symbols.push({ ...member, lineNumber: index + 1, container });
+            }
+            return;
+        }
+
+        // Any unindented line (including a closing brace or 'end') ends the previous container
+        const containerMatch = memberRule?.container.exec(line);
+        container = containerMatch ? containerMatch[1] : null;
+        memberIndent = null;
+        const symbol = matchSymbol(line, patterns);
+        if (symbol) {
+            symbols.push({ ...symbol, lineNumber: index + 1 });
+        }
+    });
+
+    logger.debug(`Extracted ${symbols.length} symbols from ${file.relativePath}.`);
+    return symbols;
+}
+
+/**
+ * Extracts the top-level definitions (functions, classes, interfaces, ...) of a highlighted file,
+ * leaving out the methods inside classes (Go methods are declared at the top level and included).
+ *
+ * @param file The `HighlightedFile` whose `language` selects the grammar to use.
+ * @returns The symbols found, in source order.
+ */
+export function extractTopLevelSymbols(file: HighlightedFile): CodeSymbol[] {
+    return extractSymbols(file).filter(symbol => symbol.container === undefined);
+}
@@ -1,133 +1,82 @@
 import hljs from 'highlight.js';
 import he from 'he'; // Use 'he' library for robust HTML entity decoding
 import { FileInfo, HighlightedFile, HighlightedLine, HighlightedToken, SyntaxTheme } from './utils/types';
+import { detectLanguage } from './language-detector';
+import { createCommentMarkerMatcher } from './comment-markers';
+import { lookupScopeValue } from './utils/themes';
 import { logger } from './utils/logger';
 
-// --- Language Mapping ---
-
-/**
- * A mapping from common file extensions (lowercase) to the language identifier
- * expected by highlight.js. This helps when highlight.js might not automatically
- * detect the correct language based solely on the extension.
- */
-const LANGUAGE_MAP: Record<string, string> = {
-    'ts': 'typescript',
-    'tsx': 'typescript',
-    'js': 'javascript',
-    'jsx': 'javascript',
-    'mjs': 'javascript',
-    'cjs': 'javascript',
-    'py': 'python',
-    'pyw': 'python',
-    'rb': 'ruby',
-    'java': 'java',
-    'cs': 'csharp',
-    'go': 'go',
-    'php': 'php',
-    'html': 'html',
-    'htm': 'html',
-    'css': 'css',
-    'scss': 'scss',
-    'sass': 'scss', // Treat sass as scss for highlighting
-    'less': 'less',
-    'json': 'json',
-    'yaml': 'yaml',
-    'yml': 'yaml',
-    'md': 'markdown',
-    'sh': 'bash',
-    'bash': 'bash',
-    'zsh': 'bash',
-    'ksh': 'bash',
-    'fish': 'bash', // Highlight most shells as bash
-    'sql': 'sql',
-    'xml': 'xml',
-    'kt': 'kotlin',
-    'kts': 'kotlin',
-    'swift': 'swift',
-    'pl': 'perl',
-    'pm': 'perl',
-    'rs': 'rust',
-    'lua': 'lua',
-    'dockerfile': 'dockerfile',
-    'h': 'c', // Often C or C++ header, default to C
-    'hpp': 'cpp',
-    'cpp': 'cpp',
-    'cxx': 'cpp',
-    'cc': 'cpp',
-    'c': 'c',
-    'm': 'objectivec',
-    'mm': 'objectivec',
-    'gradle': 'gradle',
-    'groovy': 'groovy',
-    'cmake': 'cmake',
-    'tf': 'terraform',
-    'vue': 'vue',
-    'svelte': 'svelte',
-    // Add more as needed
-};
-
 // --- Theme Mapping Logic ---
 
 /**
- * Maps highlight.js CSS class names (found in `result.value`) to semantic token types
- * defined in the `SyntaxTheme` interface. This allows applying theme colors correctly.
- * @param className A space-separated string of CSS classes from highlight.js (e.g., "hljs-keyword", "hljs-string").
- * @returns The corresponding semantic token type key from `SyntaxTheme['tokenColors']`, or null if no specific mapping is found.
+ * Converts the CSS classes highlight.js puts on a span (found in `result.value`) back into the scope
+ * they were generated from, e.g. "hljs-title class_ inherited__" -> 'title.class.inherited'
+ * (highlight.js appends one more underscore to each further part of a dotted scope).
+ * @param className A space-separated string of CSS classes from highlight.js (e.g., "hljs-keyword", "hljs-title function_").
+ * @returns The highlight.js scope, or null for spans without one (e.g. "language-xml" sub-language containers).
  */
-function mapHljsClassToThemeToken(className: string): keyof SyntaxTheme['tokenColors'] | null {
-    // Order matters slightly - more specific checks first if classes overlap
-    if (className.includes('comment')) return 'comment';
-    if (className.includes('keyword')) return 'keyword';
-    if (className.includes('string')) return 'string';
-    if (className.includes('number')) return 'number';
-    if (className.includes('literal')) return 'literal'; // true, false, null
-    if (className.includes('built_in')) return 'built_in'; // console, Math, standard library types/functions
-    if (className.includes('function')) return 'function'; // Function definition keyword/name container
-    if (className.includes('class') && className.includes('title')) return 'class'; // Class definition name
-    // Title often applies to function names, class names (usage), important identifiers
-    if (className.includes('title')) return 'title';
-    if (className.includes('params')) return 'params'; // Function parameters
-    if (className.includes('property')) return 'property'; // Object properties, member access
-    if (className.includes('operator')) return 'operator';
-    if (className.includes('punctuation')) return 'punctuation';
-    if (className.includes('tag')) return 'tag'; // HTML/XML tags
-    if (className.includes('attr') || className.includes('attribute')) return 'attr'; // HTML/XML attributes
-    if (className.includes('variable')) return 'variable';
-    if (className.includes('regexp')) return 'regexp';
-
-    // Fallback if no specific class matched our defined types
-    return null;
+export function hljsClassToScope(className: string): string | null {
+    const classes = className.trim().split(/\s+/);
+    const scopeClass = classes.find(name => name.startsWith('hljs-'));
+    if (!scopeClass) {
+        return null;
+    }
+    const subScopes = classes
+        .filter(name => /^[\w-]+?_+$/.test(name) && !name.startsWith('hljs-'))
+        .map(name => name.replace(/_+$/, ''));
+    return [scopeClass.substring('hljs-'.length), ...subScopes].join('.');
 }
 
 /**
- * Determines the font style for a token based on highlight.js classes and theme configuration.
- * @param className A space-separated string of CSS classes from highlight.js.
- * @param theme The active syntax theme configuration.
- * @returns The appropriate font style ('normal', 'italic', 'bold', 'bold-italic').
+ * Looks up the theme value for the span at a given depth. A span nested in another scope is first
+ * matched as `<parent>.<scope>` (e.g. 'meta.keyword' for a keyword inside a preprocessor directive,
+ * like the `.hljs-meta .hljs-keyword` selectors of highlight.js stylesheets), then by its own fallback chain.
+ * @param mapping The theme mapping (`tokenColors` or `fontStyles`).
+ * @param scopes The scopes of the enclosing spans, outermost first.
+ * @param index The depth of the span to look up.
+ * @returns The value found, or undefined.
  */
-function getFontStyle(className: string, theme: SyntaxTheme): HighlightedToken['fontStyle'] {
-    const styles = theme.fontStyles || {};
-    // Simple checks for now, could be expanded
-    if (className.includes('comment') && styles.comment === 'italic') return 'italic';
-    if (className.includes('keyword') && styles.keyword === 'bold') return 'bold';
-    // Add more style mappings based on theme config if needed
-    return 'normal'; // Default style
+function lookupSpanValue(mapping: Record<string, string> | undefined, scopes: (string | null)[], index: number): string | undefined {
+    const scope = scopes[index];
+    if (!mapping || !scope) return undefined;
+    for (let parentIndex = index - 1; parentIndex >= 0; parentIndex--) {
+        const parent = scopes[parentIndex];
+        if (parent && mapping[`${parent}.${scope}`] !== undefined) {
+            return mapping[`${parent}.${scope}`];
+        }
+    }
+    return lookupScopeValue(mapping, scope);
 }
 
-
-// --- Language Detection ---
-
 /**
- * Detects the language identifier for syntax highlighting based on the file extension.
- * Uses the `LANGUAGE_MAP` for overrides, otherwise falls back to the extension itself.
- * @param extension The file extension (e.g., 'ts', 'py') without the leading dot.
- * @returns The language name recognized by highlight.js or the extension itself (lowercase).
+ * Determines the color and font style of a token from the scopes of the spans enclosing it.
+ * Like CSS inheritance, the innermost scope that the theme styles wins (each scope following its
+ * dotted fallback chain), and colors and font styles are resolved independently.
+ * @param scopes The scopes of the enclosing spans, outermost first (null for spans without a scope).
+ * @param theme The active syntax theme configuration.
+ * @returns The token's color, font style, underline flag and whether it is part of a comment.
  */
-function detectLanguage(extension: string): string {
-    const lowerExt = extension?.toLowerCase() || ''; // Handle potential null/undefined extension
-    return LANGUAGE_MAP[lowerExt] || lowerExt; // Fallback to extension if no mapping
+function resolveTokenStyle(scopes: (string | null)[], theme: SyntaxTheme): Omit<HighlightedToken, 'text'> {
+    let color: string | undefined;
+    let fontStyle: string | undefined;
+    for (let i = scopes.length - 1; i >= 0 && (color === undefined || fontStyle === undefined); i--) {
+        color ??= lookupSpanValue(theme.tokenColors, scopes, i);
+        fontStyle ??= lookupSpanValue(theme.fontStyles, scopes, i);
+    }
+    const styles = (fontStyle ?? '').split(/\s+/);
+    const bold = styles.includes('bold');
+    const italic = styles.includes('italic');
+    // Text nested anywhere inside a comment span (e.g. a doc tag) belongs to the comment
+    const comment = scopes.some(scope => scope !== null && scope.split('.')[0] === 'comment');
+    return {
+        color: color ?? theme.defaultColor,
+        fontStyle: bold && italic ? 'bold-italic' : bold ? 'bold' : italic ? 'italic' : 'normal',
+        underline: styles.includes('underline'),
+        ...(comment ? { comment } : {}),
+    };
 }
 
+
 // --- HTML Parsing ---
 
 /**
@@ -141,8 +90,8 @@ function detectLanguage(extension: string): string {
  */
 function parseHighlightedHtml(highlightedHtml: string, theme: SyntaxTheme): HighlightedToken[] {
     const tokens: HighlightedToken[] = [];
-    // Stack to keep track of nested spans and their classes
-    const stack: { tag: string; class?: string }[] = [];
+    // Stack to keep track of nested spans and their highlight.js scopes
+    const stack: { tag: string; scope: string | null }[] = [];
     let currentText = '';
     let currentIndex = 0;
 
@@ -162,13 +111,7 @@ function parseHighlightedHtml(highlightedHtml: string, theme: SyntaxTheme): High
         if (tagStart === -1) {
             if (currentText) {
                 const decodedText = he.decode(currentText); // Decode entities
-                const currentStyle = stack[stack.length - 1]; // Get style from top of stack
-                const themeKey = currentStyle?.class ? mapHljsClassToThemeToken(currentStyle.class) : null;
-                tokens.push({
-                    text: decodedText,
-                    color: themeKey ? (theme.tokenColors[themeKey] ?? theme.defaultColor) : theme.defaultColor,
-                    fontStyle: currentStyle?.class ? getFontStyle(currentStyle.class, theme) : 'normal',
-                });
+                tokens.push({ text: decodedText, ...resolveTokenStyle(stack.map(entry => entry.scope), theme) }); // Style from the enclosing spans
             }
             break; // Exit loop
         }
@@ -181,13 +124,7 @@ function parseHighlightedHtml(highlightedHtml: string, theme: SyntaxTheme): High
              // Process the potentially malformed remaining text
              if (currentText) {
                  const decodedText = he.decode(currentText);
-                 const currentStyle = stack[stack.length - 1];
-                 const themeKey = currentStyle?.class ? mapHljsClassToThemeToken(currentStyle.class) : null;
-                 tokens.push({
-                     text: decodedText,
-                     color: themeKey ? (theme.tokenColors[themeKey] ?? theme.defaultColor) : theme.defaultColor,
-                     fontStyle: currentStyle?.class ? getFontStyle(currentStyle.class, theme) : 'normal',
-                 });
+                 tokens.push({ text: decodedText, ...resolveTokenStyle(stack.map(entry => entry.scope), theme) });
              }
              break; // Exit loop
         }
@@ -198,13 +135,7 @@ function parseHighlightedHtml(highlightedHtml: string, theme: SyntaxTheme): High
         // Process any accumulated text *before* handling the current tag
         if (currentText) {
              const decodedText = he.decode(currentText);
-             const currentStyle = stack[stack.length - 1];
-             const themeKey = currentStyle?.class ? mapHljsClassToThemeToken(currentStyle.class) : null;
-             tokens.push({
-                 text: decodedText,
-                 color: themeKey ? (theme.tokenColors[themeKey] ?? theme.defaultColor) : theme.defaultColor, // Use default if key not in theme
-                 fontStyle: currentStyle?.class ? getFontStyle(currentStyle.class, theme) : 'normal',
-             });
+             tokens.push({ text: decodedText, ...resolveTokenStyle(stack.map(entry => entry.scope), theme) });
              currentText = ''; // Reset accumulated text
         }
 
@@ -231,7 +162,7 @@ function parseHighlightedHtml(highlightedHtml: string, theme: SyntaxTheme): High
             if (classAttrMatch) {
                 className = classAttrMatch[1];
             }
-            stack.push({ tag: tagName, class: className });
+            stack.push({ tag: tagName, scope: className ? hljsClassToScope(className) : null });
         }
 
         // Move index past the processed tag
@@ -243,77 +174,155 @@ function parseHighlightedHtml(highlightedHtml: string, theme: SyntaxTheme): High
 }
 
 
+/**
+ * Splits the HTML that highlight.js produced for a whole file into one HTML fragment per source line.
+ * Spans that are still open at a line break (block comments, template literals, multi-line strings, ...)
+ * are closed at the end of the line and re-opened at the start of the next one, so every fragment is
+ * balanced and carries the styling that is in effect on that line.
+ *
+ * @param highlightedHtml The HTML string generated by `hljs.highlight().value` for the whole file.
+ * @returns The HTML fragments, one per line (a file ending in a newline yields a final empty fragment).
+ */
+function splitHighlightedHtmlIntoLines(highlightedHtml: string): string[] {
+    const lines: string[] = [];
+    const openTags: string[] = []; // Opening tags of the spans currently open, outermost first
+    let currentLine = '';
+    let lastIndex = 0;
+    const pattern = /<span[^>]*>|<\/span>|\n/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(highlightedHtml)) !== null) {
+        currentLine += highlightedHtml.substring(lastIndex, match.index);
+        lastIndex = pattern.lastIndex;
+        const piece = match[0];
+        if (piece === '\n') {
+            // Close every open span on this line and re-open them on the next one
+            lines.push(currentLine + '</span>'.repeat(openTags.length));
+            currentLine = openTags.join('');
+        } else if (piece === '</span>') {
+            openTags.pop();
+            currentLine += piece;
+        } else {
+            openTags.push(piece);
+            currentLine += piece;
+        }
+    }
+    lines.push(currentLine + highlightedHtml.substring(lastIndex));
+    return lines;
+}
+
+/**
+ * Converts the HTML fragment of a single line into tokens, handling blank lines and empty parse results.
+ * @param lineHtml The (balanced) HTML fragment of the line.
+ * @param line The raw source text of the line.
+ * @param lineNumber The 1-based line number, used in debug messages.
+ * @param fileInfo The file being highlighted, used in debug messages.
+ * @param theme The syntax theme configuration object.
+ * @returns The styled tokens of the line (at least one).
+ */
+function tokenizeLine(lineHtml: string, line: string, lineNumber: number, fileInfo: FileInfo, theme: SyntaxTheme): HighlightedToken[] {
+    if (line === '') {
+        // Handle empty lines simply: one empty token
+        return [{ text: '', fontStyle: 'normal', color: theme.defaultColor }];
+    }
+    if (line.trim() === '') {
+        // Keep whitespace-only lines as written, so tabs are expanded and whitespace markers drawn on them
+        return [{ text: line, fontStyle: 'normal', color: theme.defaultColor }];
+    }
+    const lineTokens = parseHighlightedHtml(lineHtml, theme);
+    // Final safety check: If parsing resulted in empty tokens for a non-empty line, use a single plain token
+    if (lineTokens.length === 0) {
+        logger.debug(`Token parsing yielded empty array for non-empty line ${lineNumber} in ${fileInfo.relativePath}. Using plain text token.`);
+        return [{ text: line, color: theme.defaultColor, fontStyle: 'normal' }];
+    }
+    return lineTokens;
+}
+
+/**
+ * Highlights the whole file in a single highlight.js call, so that constructs spanning several lines
+ * keep their colors on every line, and splits the result into lines.
+ * @param lines The source lines of the file.
+ * @param language The highlight.js language to use.
+ * @param fileInfo The file being highlighted.
+ * @param theme The syntax theme configuration object.
+ * @returns The highlighted lines.
+ * @throws An error if highlight.js fails or its output does not line up with the source lines.
+ */
+function highlightWholeFile(lines: string[], language: string, fileInfo: FileInfo, theme: SyntaxTheme): HighlightedLine[] {
+    const code = lines.join('\n'); // Normalizes \r\n line endings
+    // ignoreIllegals helps prevent errors on slightly malformed code
+    const result = hljs.highlight(code, { language, ignoreIllegals: true });
+
+    const lineHtml = splitHighlightedHtmlIntoLines(result.value);
+    if (lineHtml.length !== lines.length) {
+        throw new Error(`highlighter produced ${lineHtml.length} lines for ${lines.length} source lines`);
+    }
+    return lines.map((line, index) => ({
+        lineNumber: index + 1,
+        tokens: tokenizeLine(lineHtml[index], line, index + 1, fileInfo, theme),
+    }));
+}
+
+/**
+ * Highlights each line on its own. Used as a fallback when whole-file highlighting fails;
+ * constructs spanning several lines are only colored on their first line.
+ * @param lines The source lines of the file.
+ * @param language The highlight.js language to use.
+ * @param fileInfo The file being highlighted.
+ * @param theme The syntax theme configuration object.
+ * @returns The highlighted lines.
+ */
+function highlightLineByLine(lines: string[], language: string, fileInfo: FileInfo, theme: SyntaxTheme): HighlightedLine[] {
+    return lines.map((line, index) => {
+        const lineNumber = index + 1; // 1-based line number
+        let lineHtml = he.encode(line); // Plain text fallback
+        if (line.trim() !== '') {
+            try {
+                lineHtml = hljs.highlight(line, { language, ignoreIllegals: true }).value;
+            } catch (highlightError) {
+                // Log specific highlighting errors but continue processing the file
+                logger.warn(`Highlighting failed for line ${lineNumber} in ${fileInfo.relativePath}, using plain text. Error: ${(highlightError as Error).message}`);
+            }
+        }
+        return { lineNumber, tokens: tokenizeLine(lineHtml, line, lineNumber, fileInfo, theme) };
+    });
+}
+
+
 // --- Main Highlighting Function ---
 
 /**
  * Applies syntax highlighting to the content of a single file.
- * It detects the language, processes the content line by line using highlight.js,
- * parses the resulting HTML into styled tokens, and applies colors/styles from the theme.
- * Includes fallbacks for unsupported languages or highlighting errors.
+ * It uses the language detected for the file, highlights the whole content at once using highlight.js (so multi-line
+ * comments and strings stay colored), splits and parses the resulting HTML into styled tokens per line,
+ * and applies colors/styles from the theme.
+ * Falls back to line-by-line highlighting, and finally to plain text, if highlighting fails.
  *
- * @param fileInfo The `FileInfo` object containing the file's path, content, and extension.
+ * @param fileInfo The `FileInfo` object containing the file's path, content, and detected language.
  * @param theme The `SyntaxTheme` object defining the colors and styles to apply.
+ * @param markerTags Comment marker tags (e.g. 'TODO') to collect from the comments of each line; none by default.
  * @returns A `HighlightedFile` object containing the original file info plus the array of `HighlightedLine` objects.
  */
-export function highlightCode(fileInfo: FileInfo, theme: SyntaxTheme): HighlightedFile {
-    const language = detectLanguage(fileInfo.extension);
-    // Verify if the detected language is actually supported by highlight.js
+export function highlightCode(fileInfo: FileInfo, theme: SyntaxTheme, markerTags: string[] = []): HighlightedFile {
+    // The language is normally detected once while scanning; detect it here for files built elsewhere
+    const language = fileInfo.language || detectLanguage(fileInfo.relativePath, fileInfo.content);
+    // Verify that the language is actually supported by highlight.js
     const detectedLanguageName = hljs.getLanguage(language) ? language : 'plaintext';
     logger.debug(`Highlighting ${fileInfo.relativePath} as language: ${detectedLanguageName}`);
 
-    const highlightedLines: HighlightedLine[] = [];
     // Robustly split lines, handling \n and \r\n
     const lines = fileInfo.content.split(/\r?\n/);
+    let highlightedLines: HighlightedLine[];
 
     try {
-        // Process line by line
-        lines.forEach((line, index) => {
-            let lineTokens: HighlightedToken[];
-            const lineNumber = index + 1; // 1-based line number
-
-            if (line.trim() === '') {
-                // Handle empty lines simply: one empty token
-                lineTokens = [{ text: '', fontStyle: 'normal', color: theme.defaultColor }];
-            } else {
-                // *** REMOVED explicit type annotation for 'result' ***
-                let result = null; // Initialize as null
-                try {
-                    // Attempt highlighting with the detected (and verified) language
-                    if (detectedLanguageName !== 'plaintext') {
-                        // ignoreIllegals helps prevent errors on slightly malformed code
-                        result = hljs.highlight(line, { language: detectedLanguageName, ignoreIllegals: true });
-                    } else {
-                        // If language wasn't registered, try auto-detection as a fallback
-                        logger.debug(`Attempting auto-detect for line ${lineNumber} in ${fileInfo.relativePath}`);
-                        result = hljs.highlightAuto(line);
-                    }
-                } catch (highlightError) {
-                    // Log specific highlighting errors but continue processing the file
-                    logger.warn(`Highlighting failed for line ${lineNumber} in ${fileInfo.relativePath}, using plain text. Error: ${(highlightError as Error).message}`);
-                    result = null; // Ensure result is null on error
-                }
-
-                // Parse the HTML output (or use encoded plain text as fallback)
-                // Use optional chaining on result?.value
-                const htmlToParse = result?.value ?? he.encode(line);
-                lineTokens = parseHighlightedHtml(htmlToParse, theme);
-
-                 // Final safety check: If parsing resulted in empty tokens for a non-empty line, use a single plain token
-                 if (lineTokens.length === 0 && line.length > 0) {
-                    logger.debug(`Token parsing yielded empty array for non-empty line ${lineNumber} in ${fileInfo.relativePath}. Using plain text token.`);
-                    lineTokens = [{ text: line, color: theme.defaultColor, fontStyle: 'normal' }];
-                }
-            }
-
-            // Add the processed line (tokens) to the results
-            highlightedLines.push({
-                lineNumber: lineNumber,
-                tokens: lineTokens,
-            });
-        });
-
+        try {
+            highlightedLines = highlightWholeFile(lines, detectedLanguageName, fileInfo, theme);
+        } catch (wholeFileError) {
+            logger.warn(`Whole-file highlighting failed for ${fileInfo.relativePath}, highlighting line by line. Error: ${(wholeFileError as Error).message}`);
+            highlightedLines = highlightLineByLine(lines, detectedLanguageName, fileInfo, theme);
+        }
     } catch (processingError) {
-        // Catch unexpected errors during the line processing loop (less likely now)
+        // Catch unexpected errors during the line processing (less likely now)
         logger.error(`Critical error during highlighting loop for ${fileInfo.relativePath}: ${(processingError as Error).message}`);
         // Fallback: return the file structure but with unhighlighted lines to prevent total failure
         const fallbackLines = lines.map((line, index) => ({
@@ -327,6 +336,15 @@ export function highlightCode(fileInfo: FileInfo, theme: SyntaxTheme): Highlight
         };
     }
 
+    // Collect comment markers (TODO, FIXME, ...) from the comment tokens of each line
+    if (markerTags.length > 0) {
+        const findMarkers = createCommentMarkerMatcher(markerTags);
+        highlightedLines = highlightedLines.map(line => {
+            const markers = findMarkers(line.tokens);
+            return markers.length > 0 ? { ...line, markers } : line;
+        });
+    }
+
     // Return the processed file info with highlighted lines
     return {
         ...fileInfo,
@@ -0,0 +1,382 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { SyntaxTheme } from './utils/types';
+import { hljsClassToScope } from './syntax-highlighter';
+import { logger } from './utils/logger';
+
+/** The theme formats that can be imported. */
+export type ThemeImportFormat = 'vscode' | 'hljs-css';
+
+/**
+ * The result of converting an editor theme into a `SyntaxTheme`.
+ */
+export interface ThemeImportResult {
+    /** The converted theme. Colors the source did not define are derived from the ones it did. */
+    theme: SyntaxTheme;
+    /** Scopes (VS Code) or selectors (highlight.js CSS) that have no highlight.js equivalent. */
+    unmappedScopes: string[];
+}
+
+/** A color or font style found in the source theme, with how specific its scope or selector was. */
+interface ScopedSetting {
+    /** The highlight.js scope the source scope or selector maps to. */
+    scope: string;
+    /** Lower is more general; the most general match wins, so `string` beats `string.quoted.double.js`. */
+    specificity: number;
+    color?: string;
+    /** Space-separated 'bold', 'italic' and 'underline' keywords, or 'normal'. */
+    fontStyle?: string;
+}
+
+/**
+ * TextMate scope prefixes (as used by VS Code themes) mapped to highlight.js scopes, most specific first.
+ * A scope maps to the first entry it equals or starts with (followed by a dot).
+ */
+const TEXTMATE_SCOPE_MAP: [string, string][] = [
+    ['storage.type.class.jsdoc', 'doctag'],
+    ['comment', 'comment'],
+    ['punctuation.definition.comment', 'comment'],
+    ['keyword.operator', 'operator'],
+    ['keyword', 'keyword'],
+    ['storage', 'keyword'],
+    ['string.regexp', 'regexp'],
+    ['constant.character.escape', 'char.escape'],
+    ['meta.template.expression', 'subst'],
+    ['string', 'string'],
+    ['constant.numeric', 'number'],
+    ['constant.language', 'literal'],
+    ['constant.other.symbol', 'symbol'],
+    ['variable.other.constant', 'variable.constant'],
+    ['constant.other', 'variable.constant'],
+    ['entity.name.function', 'title.function'],
+    ['meta.function-call', 'title.function.invoke'],
+    ['support.function', 'built_in'],
+    ['entity.other.inherited-class', 'title.class.inherited'],
+    ['entity.name.type.class', 'title.class'],
+    ['entity.name.class', 'title.class'],
+    ['entity.name.type', 'type'],
+    ['support.type.property-name.css', 'attribute'],
+    ['support.type.property-name', 'attr'],
+    ['support.type', 'type'],
+    ['support.class', 'title.class'],
+    ['support.constant', 'built_in'],
+    ['support.variable', 'built_in'],
+    ['entity.name.tag.css', 'selector-tag'],
+    ['entity.name.tag', 'name'],
+    ['entity.other.attribute-name.class.css', 'selector-class'],
+    ['entity.other.attribute-name.id.css', 'selector-id'],
+    ['entity.other.attribute-name.pseudo-class', 'selector-pseudo'],
+    ['entity.other.attribute-name.pseudo-element', 'selector-pseudo'],
+    ['entity.other.attribute-name', 'attr'],
+    ['entity.name.section', 'section'],
+    ['entity.name', 'title'],
+    ['variable.parameter', 'params'],
+    ['variable.language', 'variable.language'],
+    ['variable.other.property', 'property'],
+    ['variable.other.object.property', 'property'],
+    ['meta.object-literal.key', 'property'],
+    ['variable', 'variable'],
+    ['meta.preprocessor', 'meta'],
+    ['meta.decorator', 'meta'],
+    ['punctuation.definition.tag', 'tag'],
+    ['punctuation', 'punctuation'],
+    ['markup.heading', 'section'],
+    ['markup.bold', 'strong'],
+    ['markup.italic', 'emphasis'],
+    ['markup.inserted', 'addition'],
+    ['markup.deleted', 'deletion'],
+    ['markup.underline.link', 'link'],
+    ['markup.quote', 'quote'],
+    ['markup.list', 'bullet'],
+    ['markup.inline.raw', 'code'],
+    ['markup.fenced_code', 'code'],
+    ['markup.raw', 'code'],
+];
+
+/** Font style keywords kept from the source theme (others, such as 'strikethrough', are dropped). */
+const FONT_STYLE_KEYWORDS = ['bold', 'italic', 'underline'];
+
+/** VS Code workbench color keys used for the layout colors, in order of preference. */
+const VSCODE_LAYOUT_COLORS: Record<keyof Omit<SyntaxTheme, 'tokenColors' | 'fontStyles'>, string[]> = {
+    defaultColor: ['editor.foreground', 'foreground'],
+    backgroundColor: ['editor.background'],
+    lineNumberColor: ['editorLineNumber.foreground'],
+    lineNumberBackground: ['editorGutter.background', 'editor.background'],
+    headerFooterColor: ['tab.activeForeground', 'editorLineNumber.foreground'],
+    headerFooterBackground: ['editorGroupHeader.tabsBackground', 'tab.inactiveBackground', 'editor.background'],
+    borderColor: ['editorGroup.border', 'panel.border', 'editorWidget.border', 'editorIndentGuide.background'],
+};
+
+// --- Helpers ---
+
+/**
+ * Normalizes a CSS color to the '#rrggbb' form used by themes. Alpha channels are dropped.
+ * @param value A hex color ('#rgb', '#rgba', '#rrggbb', '#rrggbbaa') or an `rgb()`/`rgba()` expression.
+ * @returns The normalized color, or null if the value is not in a supported notation (e.g. a color name).
+ */
+function normalizeColor(value: string): string | null {
+    const color = value.trim().toLowerCase();
+    const hexMatch = color.match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/);
+    if (hexMatch) {
+        const hex = hexMatch[1].length <= 4
+            ? hexMatch[1].slice(0, 3).split('').map(digit => digit + digit).join('')
+            : hexMatch[1].slice(0, 6);
+        return `#${hex}`;
+    }
+    const rgbMatch = color.match(/^rgba?\(\s*(\d{1,3})[\s,]+(\d{1,3})[\s,]+(\d{1,3})/);
+    if (rgbMatch) {
+        return '#' + rgbMatch.slice(1, 4).map(channel => Math.min(255, Number(channel)).toString(16).padStart(2, '0')).join('');
+    }
+    return null;
+}
+
+/**
+ * Removes line comments, block comments and trailing commas from JSON, as VS Code theme files (JSONC) contain them.
+ * @param content The JSONC text.
+ * @returns Plain JSON text.
+ */
+function stripJsonComments(content: string): string {
+    let result = '';
+    let inString = false;
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (inString) {
+            result += char;
+            if (char === '\\') {
+                result += content[++i] ?? '';
+            } else if (char === '"') {
+                inString = false;
+            }
+        } else if (char === '"') {
+            inString = true;
+            result += char;
+        } else if (char === '/' && content[i + 1] === '/') {
+            while (i < content.length && content[i] !== '\n') i++;
+            result += '\n';
+        } else if (char === '/' && content[i + 1] === '*') {
+            const end = content.indexOf('*/', i + 2);
+            i = end === -1 ? content.length : end + 1;
+        } else {
+            result += char;
+        }
+    }
+    return result.replace(/,(\s*[}\]])/g, '$1');
+}
+
+/**
+ * Maps a TextMate scope to a highlight.js scope.
+ * @param scope A single scope, possibly a descendant selector such as 'meta.class string'.
+ * @returns The highlight.js scope and the source scope's specificity, or null if the scope has no equivalent.
+ */
+function mapTextMateScope(scope: string): Pick<ScopedSetting, 'scope' | 'specificity'> | null {
+    // In descendant selectors the last scope decides what is colored
+    const parts = scope.trim().split(/\s+/);
+    const target = parts[parts.length - 1];
+    const entry = TEXTMATE_SCOPE_MAP.find(([prefix]) => target === prefix || target.startsWith(`${prefix}.`));
+    if (!entry) {
+        return null;
+    }
+    return { scope: entry[1], specificity: target.split('.').length + (parts.length - 1) * 10 };
+}
+
+/**
+ * Builds a theme from the collected settings, taking the most general setting for every scope,
+ * and fills in layout colors the source did not define.
+ * @param layout The layout colors found in the source theme.
+ * @param settings The scoped settings, in source order (later settings win ties).
+ * @returns The complete theme.
+ */
+function buildTheme(layout: Partial<SyntaxTheme>, settings: ScopedSetting[]): SyntaxTheme {
+    const pick = (property: 'color' | 'fontStyle'): Record<string, string> => {
+        const values: Record<string, string> = {};
+        const chosen: Record<string, number> = {};
+        for (const setting of settings) {
+            const value = setting[property];
+            if (value !== undefined && setting.specificity <= (chosen[setting.scope] ?? Number.POSITIVE_INFINITY)) {
+                values[setting.scope] = value;
+                chosen[setting.scope] = setting.specificity;
+            }
+        }
+        return values;
+    };
+    const tokenColors = pick('color');
+    const fontStyles = pick('fontStyle');
+
+    const defaultColor = layout.defaultColor ?? '#000000';
+    const backgroundColor = layout.backgroundColor ?? '#ffffff';
+    const lineNumberColor = layout.lineNumberColor ?? tokenColors.comment ?? defaultColor;
+    return {
+        defaultColor,
+        backgroundColor,
+        lineNumberColor,
+        lineNumberBackground: layout.lineNumberBackground ?? backgroundColor,
+        headerFooterColor: layout.headerFooterColor ?? lineNumberColor,
+        headerFooterBackground: layout.headerFooterBackground ?? backgroundColor,
+        borderColor: layout.borderColor ?? lineNumberColor,
+        tokenColors,
+        ...(Object.keys(fontStyles).length > 0 ? { fontStyles } : {}),
+    };
+}
+
+// --- Converters ---
+
+/**
+ * Converts a VS Code color theme (JSON with comments) into a `SyntaxTheme`.
+ * @param content The theme file content.
+ * @returns The converted theme and the scopes that could not be mapped.
+ * @throws An error if the content is not a VS Code theme.
+ */
+function importVsCodeTheme(content: string): ThemeImportResult {
+    let parsed: { colors?: Record<string, string>; tokenColors?: unknown };
+    try {
+        parsed = JSON.parse(stripJsonComments(content));
+    } catch (error) {
+        throw new Error(`Invalid VS Code theme: ${(error as Error).message}`);
+    }
+    if (!Array.isArray(parsed.tokenColors)) {
+        throw new Error('Invalid VS Code theme: expected a "tokenColors" array (themes that only "include" another file are not supported).');
+    }
+
+    const layout: Partial<SyntaxTheme> = {};
+    for (const [key, candidates] of Object.entries(VSCODE_LAYOUT_COLORS)) {
+        const found = candidates.map(candidate => parsed.colors?.[candidate]).find(value => value && normalizeColor(value));
+        if (found) {
+            (layout as Record<string, string | null>)[key] = normalizeColor(found);
+        }
+    }
+
+    const settings: ScopedSetting[] = [];
+    const unmapped = new Set<string>();
+    for (const rule of parsed.tokenColors as { scope?: string | string[]; settings?: { foreground?: string; fontStyle?: string } }[]) {
+        const ruleSettings = rule.settings ?? {};
+        const color = ruleSettings.foreground ? normalizeColor(ruleSettings.foreground) ?? undefined : undefined;
+        // An empty fontStyle explicitly clears inherited styles
+        const fontStyle = ruleSettings.fontStyle === undefined
+            ? undefined
+            : ruleSettings.fontStyle.split(/\s+/).filter(style => FONT_STYLE_KEYWORDS.includes(style)).join(' ') || 'normal';
+        if (rule.scope === undefined) {
+            // A rule without scope sets the editor defaults
+            if (color && !layout.defaultColor) layout.defaultColor = color;
+            continue;
+        }
+        const scopes = (Array.isArray(rule.scope) ? rule.scope : rule.scope.split(',')).map(scope => scope.trim()).filter(Boolean);
+        for (const scope of scopes) {
+            const mapped = mapTextMateScope(scope);
+            if (!mapped) {
+                unmapped.add(scope);
+                continue;
+            }
+            settings.push({ ...mapped, color, fontStyle });
+        }
+    }
+    return { theme: buildTheme(layout, settings), unmappedScopes: Array.from(unmapped) };
+}
+
+/**
+ * Derives the font style of a CSS rule from its font-style, font-weight and text-decoration declarations.
+ * @param declarations The rule's declarations, keyed by lowercase property name.
+ * @returns Space-separated style keywords, 'normal' if the rule resets the styles, or undefined if it sets none.
+ */
+function getCssFontStyle(declarations: Record<string, string>): string | undefined {
+    const fontStyle = declarations['font-style'];
+    const fontWeight = declarations['font-weight'];
+    const textDecoration = declarations['text-decoration'] ?? declarations['text-decoration-line'];
+    if (fontStyle === undefined && fontWeight === undefined && textDecoration === undefined) {
+        return undefined;
+    }
+    const styles = [
+        (fontWeight === 'bold' || fontWeight === 'bolder' || Number(fontWeight) >= 600) ? 'bold' : '',
+        fontStyle === 'italic' || fontStyle === 'oblique' ? 'italic' : '',
+        textDecoration?.includes('underline') ? 'underline' : '',
+    ].filter(Boolean);
+    return styles.join(' ') || 'normal';
+}
+
+/**
+ * Converts a highlight.js CSS stylesheet into a `SyntaxTheme`.
+ * @param content The stylesheet content.
+ * @returns The converted theme and the selectors that could not be mapped.
+ * @throws An error if the stylesheet contains no highlight.js rules.
+ */
+function importHljsCssTheme(content: string): ThemeImportResult {
+    const css = content.replace(/\/\*[\s\S]*?\*\//g, '');
+    const layout: Partial<SyntaxTheme> = {};
+    const settings: ScopedSetting[] = [];
+    const unmapped = new Set<string>();
+    let foundRules = false;
+
+    for (const match of css.matchAll(/([^{}]+)\{([^{}]*)\}/g)) {
+        const declarations: Record<string, string> = {};
+        for (const declaration of match[2].split(';')) {
+            const separator = declaration.indexOf(':');
+            if (separator !== -1) {
+                declarations[declaration.substring(0, separator).trim().toLowerCase()] = declaration.substring(separator + 1).replace(/!important/, '').trim();
+            }
+        }
+        const color = declarations['color'] ? normalizeColor(declarations['color']) ?? undefined : undefined;
+        const background = declarations['background-color'] ?? declarations['background'];
+
+        for (const rawSelector of match[1].split(',')) {
+            const selector = rawSelector.trim();
+            if (!selector.includes('hljs')) continue;
+            foundRules = true;
+            if (selector === '.hljs' || selector === 'pre code.hljs' || selector === 'code.hljs') {
+                if (color) layout.defaultColor = color;
+                const backgroundColor = background ? normalizeColor(background) : null;
+                if (backgroundColor) layout.backgroundColor = backgroundColor;
+                continue;
+            }
+            // '.hljs-title.class_' is a scope; '.hljs-meta .hljs-keyword' is a scope nested in another one
+            const scopes = selector.split(/\s+/).map(compound => {
+                const classes = (compound.match(/\.[\w-]+/g) ?? []).map(className => className.substring(1));
+                return hljsClassToScope(classes.join(' '));
+            });
+            if (scopes.length > 2 || scopes.some(scope => !scope)) {
+                unmapped.add(selector);
+                continue;
+            }
+            const fontStyle = getCssFontStyle(declarations);
+            if (!color && !fontStyle) continue;
+            settings.push({ scope: scopes.join('.'), specificity: 0, color, fontStyle });
+        }
+    }
+    if (!foundRules) {
+        throw new Error('Invalid highlight.js stylesheet: no ".hljs" rules found.');
+    }
+    return { theme: buildTheme(layout, settings), unmappedScopes: Array.from(unmapped) };
+}
+
+// --- Public API ---
+
+/**
+ * Converts a VS Code color theme or a highlight.js CSS stylesheet into a `SyntaxTheme`.
+ * @param content The theme file content.
+ * @param format The format of the content.
+ * @returns The converted theme and the scopes or selectors that had no equivalent.
+ * @throws An error if the content is not a valid theme of the given format.
+ */
+export function importTheme(content: string, format: ThemeImportFormat): ThemeImportResult {
+    const result = format === 'vscode' ? importVsCodeTheme(content) : importHljsCssTheme(content);
+    logger.debug(`Imported ${format} theme: ${Object.keys(result.theme.tokenColors).length} token colors, ${result.unmappedScopes.length} unmapped scopes.`);
+    return result;
+}
+
+/**
+ * Reads and converts a theme file; the format is chosen by extension ('.json' for VS Code, '.css' for highlight.js).
+ * @param filePath The path to the theme file.
+ * @returns The converted theme and the scopes or selectors that had no equivalent.
+ * @throws An error if the file cannot be read, has an unsupported extension or is not a valid theme.
+ */
+export async function importThemeFile(filePath: string): Promise<ThemeImportResult> {
+    const extension = path.extname(filePath).toLowerCase();
+    if (extension !== '.json' && extension !== '.css') {
+        throw new Error(`Cannot import ${filePath}: use a VS Code theme (.json) or a highlight.js stylesheet (.css).`);
+    }
+    let content: string;
+    try {
+        content = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+        throw new Error(`Could not read theme file ${filePath}: ${(error as Error).message}`);
+    }
+    return importTheme(content, extension === '.json' ? 'vscode' : 'hljs-css');
+}
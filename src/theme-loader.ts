@@ -0,0 +1,204 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { SyntaxTheme } from './utils/types';
+import { themes } from './utils/themes';
+import { logger } from './utils/logger';
+
+/** File extension of theme files. */
+export const THEME_FILE_EXTENSION = '.json';
+
+/** Keys of a theme file that hold colors used for the page layout (all required once `extends` is applied). */
+const LAYOUT_COLOR_KEYS: (keyof Omit<SyntaxTheme, 'tokenColors' | 'fontStyles'>)[] = [
+    'defaultColor', 'backgroundColor', 'lineNumberColor', 'lineNumberBackground',
+    'headerFooterColor', 'headerFooterBackground', 'borderColor',
+];
+
+/** Accepted `tokenColors` and `fontStyles` keys: highlight.js scopes such as 'title.function' or 'meta.keyword'. */
+const SCOPE_PATTERN = /^[a-z_][\w-]*(?:\.[\w-]+)*$/i;
+
+/** Keywords a `fontStyles` value is made of ('normal' clears inherited styles and stands alone). */
+const FONT_STYLE_KEYWORDS = ['bold', 'italic', 'underline'];
+
+/** Keys of a theme file that are not part of the theme itself. */
+const META_KEYS = ['name', 'description', 'extends'];
+
+/** Accepted color notation: '#rgb' or '#rrggbb'. */
+const COLOR_PATTERN = /^#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/;
+
+/**
+ * A theme that can be selected with `--theme`: a built-in theme or a theme file from the themes directory.
+ */
+export interface ThemeListing {
+    /** The name to pass to `--theme`. */
+    name: string;
+    /** The absolute path of the theme file, or null for built-in themes. */
+    filePath: string | null;
+}
+
+/**
+ * Checks whether a `--theme` value refers to a theme file rather than a theme name.
+ * @param reference The theme option value.
+ * @returns True if the value ends with '.json'.
+ */
+export function isThemeFile(reference: string): boolean {
+    return path.extname(reference).toLowerCase() === THEME_FILE_EXTENSION;
+}
+
+/**
+ * Checks the contents of a theme file. Missing keys are allowed here, since they may be inherited.
+ * @param values The parsed JSON object.
+ * @returns A description of every problem found (empty if the file is valid).
+ */
+function validateThemeValues(values: Record<string, unknown>): string[] {
+    const problems: string[] = [];
+    const checkColor = (key: string, value: unknown) => {
+        if (typeof value !== 'string' || !COLOR_PATTERN.test(value)) {
+            problems.push(`"${key}" must be a color like "#1f2328" (got ${JSON.stringify(value)})`);
+        }
+    };
+
+    for (const [key, value] of Object.entries(values)) {
+        if (META_KEYS.includes(key)) {
+            if (typeof value !== 'string') problems.push(`"${key}" must be a string`);
+        } else if (LAYOUT_COLOR_KEYS.includes(key as typeof LAYOUT_COLOR_KEYS[number])) {
+            checkColor(key, value);
+        } else if (key === 'tokenColors') {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                problems.push('"tokenColors" must be an object');
+                continue;
+            }
+            for (const [scope, color] of Object.entries(value)) {
+                if (!SCOPE_PATTERN.test(scope)) {
+                    problems.push(`"tokenColors.${scope}" is not a highlight.js scope (e.g. "keyword" or "title.function")`);
+                } else {
+                    checkColor(`tokenColors.${scope}`, color);
+                }
+            }
+        } else if (key === 'fontStyles') {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                problems.push('"fontStyles" must be an object');
+                continue;
+            }
+            for (const [scope, style] of Object.entries(value)) {
+                const words = typeof style === 'string' ? style.trim().split(/\s+/) : [];
+                if (!SCOPE_PATTERN.test(scope)) {
+                    problems.push(`"fontStyles.${scope}" is not a highlight.js scope (e.g. "keyword" or "title.function")`);
+                } else if (!(words.length === 1 && words[0] === 'normal') && !(words.length > 0 && words.every(word => FONT_STYLE_KEYWORDS.includes(word)))) {
+                    problems.push(`"fontStyles.${scope}" must be "normal" or a combination of ${FONT_STYLE_KEYWORDS.join(', ')} (got ${JSON.stringify(style)})`);
+                }
+            }
+        } else {
+            problems.push(`unknown key "${key}"`);
+        }
+    }
+    return problems;
+}
+
+/**
+ * Lists the theme files in a themes directory.
+ * @param themesDir The absolute path to the directory, or null if none is configured.
+ * @returns The themes found, sorted by name (empty if the directory is missing).
+ */
+export async function findThemeFiles(themesDir: string | null): Promise<ThemeListing[]> {
+    if (!themesDir || !(await fs.pathExists(themesDir))) {
+        if (themesDir) logger.warn(`Themes directory not found: ${themesDir}`);
+        return [];
+    }
+    const entries = await fs.readdir(themesDir);
+    return entries
+        .filter(isThemeFile)
+        .map(entry => ({ name: path.basename(entry, path.extname(entry)).toLowerCase(), filePath: path.join(themesDir, entry) }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Lists every theme that can be selected: the built-in themes followed by the themes directory's files.
+ * A theme file with the same name as a built-in theme is listed but cannot shadow it by name.
+ * @param themesDir The absolute path to the themes directory, or null.
+ * @returns The available themes.
+ */
+export async function listAvailableThemes(themesDir: string | null): Promise<ThemeListing[]> {
+    const builtIn = Object.keys(themes).map(name => ({ name, filePath: null }));
+    return [...builtIn, ...(await findThemeFiles(themesDir))];
+}
+
+/**
+ * Loads a theme file, applying the theme it `extends` (recursively).
+ * @param filePath The absolute path to the theme file.
+ * @param themesDir The themes directory, used to resolve `extends` by name.
+ * @param seen Files already being loaded, used to detect `extends` cycles.
+ * @returns The complete theme.
+ * @throws An error if the file is unreadable, invalid or incomplete, or `extends` cannot be resolved.
+ */
+async function loadThemeFile(filePath: string, themesDir: string | null, seen: string[]): Promise<SyntaxTheme> {
+    if (seen.includes(filePath)) {
+        throw new Error(`Theme "extends" cycle: ${[...seen, filePath].join(' -> ')}`);
+    }
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (error) {
+        throw new Error(`Could not read theme file ${filePath}: ${(error as Error).message}`);
+    }
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new Error(`Invalid theme file ${filePath}: the file must contain a JSON object.`);
+    }
+    const problems = validateThemeValues(parsed as Record<string, unknown>);
+    if (problems.length > 0) {
+        throw new Error(`Invalid theme file ${filePath}: ${problems.join('; ')}.`);
+    }
+
+    const { name, description, extends: parentReference, ...own } = parsed as Partial<SyntaxTheme> & Record<string, string | undefined>;
+    logger.debug(`Loading theme file ${filePath}${name ? ` ("${name}")` : ''}${description ? `: ${description}` : ''}`);
+    const parent = parentReference
+        ? await resolveTheme(parentReference, themesDir, path.dirname(filePath), [...seen, filePath])
+        : null;
+
+    const theme = {
+        ...parent,
+        ...own,
+        tokenColors: { ...parent?.tokenColors, ...own.tokenColors },
+        fontStyles: { ...parent?.fontStyles, ...own.fontStyles },
+    } as SyntaxTheme;
+    const missing = LAYOUT_COLOR_KEYS.filter(key => !theme[key]);
+    if (missing.length > 0) {
+        throw new Error(`Invalid theme file ${filePath}: missing ${missing.join(', ')} (set them or use "extends" with a complete theme).`);
+    }
+    return theme;
+}
+
+/**
+ * Resolves a theme reference (a theme name or a path to a theme file) to a theme.
+ * @param reference A built-in theme name, the name of a file in the themes directory, or a path ending in '.json'.
+ * @param themesDir The themes directory, or null.
+ * @param baseDir The directory relative theme file paths are resolved against.
+ * @param seen Files already being loaded, used to detect `extends` cycles.
+ * @returns The theme.
+ * @throws An error if the theme cannot be found or loaded.
+ */
+async function resolveTheme(reference: string, themesDir: string | null, baseDir: string, seen: string[]): Promise<SyntaxTheme> {
+    if (isThemeFile(reference)) {
+        return loadThemeFile(path.resolve(baseDir, reference), themesDir, seen);
+    }
+    const name = reference.toLowerCase();
+    if (themes[name]) {
+        return themes[name];
+    }
+    const themeFile = (await findThemeFiles(themesDir)).find(listing => listing.name === name);
+    if (themeFile?.filePath) {
+        return loadThemeFile(themeFile.filePath, themesDir, seen);
+    }
+    const available = (await listAvailableThemes(themesDir)).map(listing => listing.name);
+    throw new Error(`Theme "${reference}" not found. Available themes: ${available.join(', ')} (or a path to a ${THEME_FILE_EXTENSION} theme file).`);
+}
+
+/**
+ * Loads the theme selected with `--theme`.
+ * @param reference A built-in theme name, the name of a file in the themes directory, or a path to a theme file.
+ * @param themesDir The absolute path to the themes directory, or null.
+ * @returns The complete, validated theme.
+ * @throws An error if the theme cannot be found or is invalid.
+ */
+export async function loadTheme(reference: string, themesDir: string | null): Promise<SyntaxTheme> {
+    return resolveTheme(reference, themesDir, process.cwd(), []);
+}
@@ -0,0 +1,126 @@
+import { ContrastIssue, ContrastMode, SyntaxTheme } from './types';
+
+/** The contrast checking modes selectable with `--contrast`. */
+export const CONTRAST_MODES: ContrastMode[] = ['warn', 'fix', 'off'];
+
+/** The contrast ratio WCAG 2 level AA requires for normal-size text. */
+export const WCAG_AA_CONTRAST = 4.5;
+
+/** The contrast ratio WCAG 2 level AAA requires for normal-size text. */
+export const WCAG_AAA_CONTRAST = 7;
+
+/** Theme keys holding a single layout color. */
+type LayoutColorKey = keyof Omit<SyntaxTheme, 'tokenColors' | 'fontStyles'>;
+
+/** Layout text colors and the background each is drawn on. */
+const LAYOUT_CONTRAST_PAIRS: [LayoutColorKey, LayoutColorKey][] = [
+    ['defaultColor', 'backgroundColor'],
+    ['lineNumberColor', 'lineNumberBackground'],
+    ['headerFooterColor', 'headerFooterBackground'],
+];
+
+/**
+ * Parses a '#rgb' or '#rrggbb' color.
+ * @param color The color to parse.
+ * @returns The red, green and blue channels (0-255).
+ */
+function parseHexColor(color: string): [number, number, number] {
+    const hex = color.replace('#', '');
+    const full = hex.length === 3 ? hex.split('').map(digit => digit + digit).join('') : hex;
+    return [0, 2, 4].map(offset => parseInt(full.substring(offset, offset + 2), 16)) as [number, number, number];
+}
+
+/**
+ * Formats color channels as a '#rrggbb' color.
+ * @param channels The red, green and blue channels (0-255).
+ * @returns The color.
+ */
+function toHexColor(channels: number[]): string {
+    return `#${channels.map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Computes the relative luminance of a color, as defined by WCAG 2.
+ * @param color A '#rgb' or '#rrggbb' color.
+ * @returns The luminance, from 0 (black) to 1 (white).
+ */
+export function getRelativeLuminance(color: string): number {
+    const [red, green, blue] = parseHexColor(color).map(channel => {
+        const value = channel / 255;
+        return value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+    });
+    return 0.2126 * red + 0.7152 * green + 0.0722 * blue;
+}
+
+/**
+ * Computes the WCAG 2 contrast ratio between two colors.
+ * @param foreground The text color.
+ * @param background The background color.
+ * @returns The ratio, from 1 (no contrast) to 21 (black on white).
+ */
+export function getContrastRatio(foreground: string, background: string): number {
+    const [lighter, darker] = [getRelativeLuminance(foreground), getRelativeLuminance(background)].sort((a, b) => b - a);
+    return (lighter + 0.05) / (darker + 0.05);
+}
+
+/**
+ * Moves a color towards black or white (whichever contrasts more with the background) just far enough
+ * to reach the required contrast, so it keeps as much of its hue as possible.
+ * @param color The text color.
+ * @param background The background color.
+ * @param minRatio The contrast ratio to reach.
+ * @returns The adjusted color (the color itself if it already has enough contrast).
+ */
+export function adjustColorContrast(color: string, background: string, minRatio: number): string {
+    if (getContrastRatio(color, background) >= minRatio) return color;
+    const target = getContrastRatio('#000000', background) >= getContrastRatio('#ffffff', background) ? 0 : 255;
+    const channels = parseHexColor(color);
+    const mix = (amount: number) => toHexColor(channels.map(channel => channel + (target - channel) * amount));
+    // Binary search for the smallest step towards the target that is sufficient
+    let low = 0;
+    let high = 1;
+    for (let step = 0; step < 12; step++) {
+        const middle = (low + high) / 2;
+        if (getContrastRatio(mix(middle), background) >= minRatio) {
+            high = middle;
+        } else {
+            low = middle;
+        }
+    }
+    return mix(high);
+}
+
+/**
+ * Lists the theme colors whose contrast against the background they are drawn on is too low:
+ * every token color and the default text against `backgroundColor`, line numbers against the gutter
+ * and header/footer text against its background.
+ * @param theme The theme to check.
+ * @param minRatio The minimum acceptable contrast ratio.
+ * @returns The colors with too little contrast (empty if the theme passes).
+ */
+export function findContrastIssues(theme: SyntaxTheme, minRatio: number): ContrastIssue[] {
+    const pairs: [string, string, string][] = [
+        ...LAYOUT_CONTRAST_PAIRS.map(([key, backgroundKey]): [string, string, string] => [key, theme[key], theme[backgroundKey]]),
+        ...Object.entries(theme.tokenColors).map(([scope, color]): [string, string, string] => [`tokenColors.${scope}`, color, theme.backgroundColor]),
+    ];
+    return pairs
+        .map(([key, color, background]) => ({ key, color, background, ratio: getContrastRatio(color, background) }))
+        .filter(issue => issue.ratio < minRatio);
+}
+
+/**
+ * Adjusts every theme color that has too little contrast against its background.
+ * @param theme The theme to adjust.
+ * @param minRatio The contrast ratio every text color must reach.
+ * @returns A copy of the theme with the adjusted colors.
+ */
+export function enforceThemeContrast(theme: SyntaxTheme, minRatio: number): SyntaxTheme {
+    const adjusted: SyntaxTheme = { ...theme, tokenColors: { ...theme.tokenColors } };
+    for (const [key, backgroundKey] of LAYOUT_CONTRAST_PAIRS) {
+        adjusted[key] = adjustColorContrast(theme[key], theme[backgroundKey], minRatio);
+    }
+    for (const [scope, color] of Object.entries(theme.tokenColors)) {
+        adjusted.tokenColors[scope] = adjustColorContrast(color, theme.backgroundColor, minRatio);
+    }
+    return adjusted;
+}
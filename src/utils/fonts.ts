@@ -0,0 +1,294 @@
+import path from 'path';
+import { openSync, Font } from 'fontkit';
+import { FontVariants, HighlightedToken, PdfOptions } from './types';
+import { logger } from './logger';
+
+/** The font styles a token or text element can request. */
+export type FontStyle = NonNullable<HighlightedToken['fontStyle']>;
+
+/** Which configured font family a piece of text belongs to. */
+export type FontRole = 'code' | 'text';
+
+/**
+ * Style variants of the standard 14 PDF fonts that come in families.
+ * Keys are the family names accepted for `codeFont` / `textFont`.
+ */
+const STANDARD_FONT_VARIANTS: Record<string, Record<FontStyle, string>> = {
+    'Courier': { normal: 'Courier', bold: 'Courier-Bold', italic: 'Courier-Oblique', 'bold-italic': 'Courier-BoldOblique' },
+    'Helvetica': { normal: 'Helvetica', bold: 'Helvetica-Bold', italic: 'Helvetica-Oblique', 'bold-italic': 'Helvetica-BoldOblique' },
+    'Times-Roman': { normal: 'Times-Roman', bold: 'Times-Bold', italic: 'Times-Italic', 'bold-italic': 'Times-BoldItalic' },
+};
+
+/** Ascender heights (per 1000 units of em) of the standard font families, from their AFM metrics. */
+const STANDARD_FONT_ASCENDERS: Record<string, number> = {
+    'Courier': 629,
+    'Helvetica': 718,
+    'Times-Roman': 683,
+};
+
+/** Characters outside Latin-1 that the standard fonts can still draw (WinAnsiEncoding). */
+const WIN_ANSI_EXTRA_CHARS = new Set('€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ');
+
+/** File extensions of font files that can be embedded into the PDF. */
+export const EMBEDDABLE_FONT_EXTENSIONS = ['.ttf', '.otf'];
+
+/** All font styles, in the order variants are registered. */
+const FONT_STYLES: FontStyle[] = ['normal', 'bold', 'italic', 'bold-italic'];
+
+/**
+ * A font registered with the PDF document under an alias, together with its glyph coverage.
+ */
+interface RegisteredFont {
+    /** The alias the font was registered under (pass this to `doc.font()`). */
+    name: string;
+    /** Returns true if the font contains a glyph for the given Unicode code point. */
+    covers: (codePoint: number) => boolean;
+    /** Height of the font's ascender per 1000 units of em. */
+    ascender: number;
+}
+
+/**
+ * The fonts available to the renderer: a code and a text family (one font per style)
+ * plus an ordered chain of fallback fonts for characters the families cannot draw.
+ */
+export interface FontSet {
+    code: Record<FontStyle, RegisteredFont>;
+    text: Record<FontStyle, RegisteredFont>;
+    fallbacks: RegisteredFont[];
+}
+
+/**
+ * A run of consecutive characters that are drawn with the same font.
+ */
+export interface FontRun {
+    /** The text of the run. */
+    text: string;
+    /** The registered font name to draw the run with. */
+    font: string;
+}
+
+/**
+ * Checks whether a font option names one of the standard PDF font families.
+ * @param value The font option value.
+ * @returns True if the value is a standard family name such as 'Courier'.
+ */
+export function isStandardFont(value: string): boolean {
+    return Object.prototype.hasOwnProperty.call(STANDARD_FONT_VARIANTS, value);
+}
+
+/**
+ * Returns the names of the standard PDF font families that can be used without embedding.
+ * @returns The family names (e.g. 'Courier', 'Helvetica', 'Times-Roman').
+ */
+export function getStandardFontNames(): string[] {
+    return Object.keys(STANDARD_FONT_VARIANTS);
+}
+
+/**
+ * Checks whether a path has the extension of an embeddable font file.
+ * @param fontPath The path to check.
+ * @returns True for TrueType/OpenType files.
+ */
+export function isEmbeddableFontFile(fontPath: string): boolean {
+    return EMBEDDABLE_FONT_EXTENSIONS.includes(path.extname(fontPath).toLowerCase());
+}
+
+/**
+ * Glyph coverage of the standard fonts: printable ASCII, Latin-1 and the WinAnsi extras.
+ * Control characters are reported as covered so they never trigger a font switch.
+ * @param codePoint The Unicode code point.
+ * @returns True if a standard font can draw the character.
+ */
+function standardFontCovers(codePoint: number): boolean {
+    if (codePoint < 0x20) return true;
+    if (codePoint <= 0x7e) return true;
+    if (codePoint >= 0xa0 && codePoint <= 0xff) return true;
+    return WIN_ANSI_EXTRA_CHARS.has(String.fromCodePoint(codePoint));
+}
+
+/**
+ * Opens a TrueType/OpenType file to read its glyph coverage.
+ * @param fontPath Absolute path to the font file.
+ * @returns The parsed font.
+ * @throws An error if the file cannot be read or is not a single font (e.g. a font collection).
+ */
+function openFontFile(fontPath: string): Font {
+    let opened;
+    try {
+        opened = openSync(fontPath);
+    } catch (error) {
+        throw new Error(`Could not load font file ${fontPath}: ${(error as Error).message}`);
+    }
+    if (!('hasGlyphForCodePoint' in opened)) {
+        throw new Error(`Font file ${fontPath} is a font collection; please provide a single .ttf or .otf font.`);
+    }
+    return opened;
+}
+
+/**
+ * Registers a single font (standard name or font file) with the document under an alias.
+ * @param doc The active PDFDocument instance.
+ * @param alias The alias to register the font as.
+ * @param source A standard PDF font name (e.g. 'Courier-Bold') or the path to a font file.
+ * @param cache Fonts already opened, keyed by path, to avoid parsing the same file twice.
+ * @returns The registered font.
+ */
+function registerFont(
+    doc: PDFKit.PDFDocument,
+    alias: string,
+    source: string,
+    cache: Map<string, Font>
+): RegisteredFont {
+    if (!isEmbeddableFontFile(source)) {
+        doc.registerFont(alias, source);
+        const family = Object.keys(STANDARD_FONT_VARIANTS).find(name => Object.values(STANDARD_FONT_VARIANTS[name]).includes(source));
+        return { name: alias, covers: standardFontCovers, ascender: STANDARD_FONT_ASCENDERS[family ?? 'Helvetica'] };
+    }
+    let font = cache.get(source);
+    if (!font) {
+        font = openFontFile(source);
+        cache.set(source, font);
+        logger.debug(`Loaded font file ${source} (${font.postscriptName}, ${font.numGlyphs} glyphs).`);
+    }
+    const loadedFont = font;
+    doc.registerFont(alias, source);
+    return {
+        name: alias,
+        covers: (codePoint) => loadedFont.hasGlyphForCodePoint(codePoint),
+        ascender: loadedFont.ascent / loadedFont.unitsPerEm * 1000,
+    };
+}
+
+/**
+ * Registers all four styles of a font family. Standard families use their own style variants;
+ * font files use the provided variant files and otherwise fall back to the regular font.
+ * @param doc The active PDFDocument instance.
+ * @param role The family being registered ('code' or 'text'), used as alias prefix.
+ * @param regular A standard family name or the path to the regular font file.
+ * @param variants Optional font files for the bold, italic and bold-italic styles.
+ * @param cache Fonts already opened, keyed by path.
+ * @returns The registered fonts, one per style.
+ */
+function registerFamily(
+    doc: PDFKit.PDFDocument,
+    role: FontRole,
+    regular: string,
+    variants: FontVariants,
+    cache: Map<string, Font>
+): Record<FontStyle, RegisteredFont> {
+    const standard = STANDARD_FONT_VARIANTS[regular];
+    const sources: Record<FontStyle, string | undefined> = {
+        'normal': regular,
+        'bold': variants.bold ?? standard?.bold,
+        'italic': variants.italic ?? standard?.italic,
+        'bold-italic': variants.boldItalic ?? standard?.['bold-italic'],
+    };
+
+    const family = {} as Record<FontStyle, RegisteredFont>;
+    for (const style of FONT_STYLES) {
+        const alias = style === 'normal' ? role : `${role}-${style}`;
+        const source = sources[style];
+        if (source) {
+            family[style] = registerFont(doc, alias, source, cache);
+        } else {
+            // No variant available (e.g. a font file without a bold file): reuse the regular font
+            logger.debug(`No ${style} variant for ${role} font; using the regular font instead.`);
+            family[style] = family.normal;
+        }
+    }
+    return family;
+}
+
+/**
+ * Registers the code font, text font and fallback fonts configured in the options with the document.
+ * @param doc The active PDFDocument instance.
+ * @param options The PDF generation options.
+ * @returns The font set used by the renderer.
+ * @throws An error if a font file cannot be loaded.
+ */
+export function registerFonts(doc: PDFKit.PDFDocument, options: PdfOptions): FontSet {
+    const cache = new Map<string, Font>();
+    const fonts: FontSet = {
+        code: registerFamily(doc, 'code', options.codeFont, options.codeFontVariants, cache),
+        text: registerFamily(doc, 'text', options.textFont, options.textFontVariants, cache),
+        fallbacks: options.fallbackFonts.map((fontPath, index) => registerFont(doc, `fallback-${index}`, fontPath, cache)),
+    };
+    logger.debug(`Registered fonts: code=${options.codeFont}, text=${options.textFont}, fallbacks=${options.fallbackFonts.length}.`);
+    return fonts;
+}
+
+/**
+ * Returns the registered font name for a family and style.
+ * @param fonts The font set returned by `registerFonts`.
+ * @param role The font family.
+ * @param style The requested style (defaults to 'normal').
+ * @returns The name to pass to `doc.font()`.
+ */
+export function getFontName(fonts: FontSet, role: FontRole, style: FontStyle = 'normal'): string {
+    return fonts[role][style].name;
+}
+
+/**
+ * Returns the ascent (distance from the top of the line to the baseline) of a family's regular font.
+ * Passing its negative as the `baseline` text option keeps runs drawn with fallback fonts on the same
+ * baseline as the family font.
+ * @param fonts The font set returned by `registerFonts`.
+ * @param role The font family.
+ * @param fontSize The font size in points.
+ * @returns The ascent in points.
+ */
+export function getFontAscent(fonts: FontSet, role: FontRole, fontSize: number): number {
+    return fonts[role].normal.ascender / 1000 * fontSize;
+}
+
+/**
+ * Splits text into runs so that each character is drawn with the first font that has a glyph for it:
+ * the requested family font, then each fallback font in order. Characters no font covers stay with
+ * the family font.
+ * @param fonts The font set returned by `registerFonts`.
+ * @param role The font family.
+ * @param style The requested style.
+ * @param text The text to split.
+ * @returns The runs, in order. Empty text yields no runs.
+ */
+export function splitTextByFont(fonts: FontSet, role: FontRole, style: FontStyle, text: string): FontRun[] {
+    const primary = fonts[role][style];
+    if (fonts.fallbacks.length === 0) {
+        return text ? [{ text, font: primary.name }] : [];
+    }
+
+    const runs: FontRun[] = [];
+    for (const char of text) { // Iterates by code point, keeping surrogate pairs together
+        const codePoint = char.codePointAt(0) as number;
+        let font = primary;
+        if (!primary.covers(codePoint)) {
+            font = fonts.fallbacks.find(fallback => fallback.covers(codePoint)) ?? primary;
+        }
+        const lastRun = runs[runs.length - 1];
+        if (lastRun && lastRun.font === font.name) {
+            lastRun.text += char;
+        } else {
+            runs.push({ text: char, font: font.name });
+        }
+    }
+    return runs;
+}
+
+/**
+ * Picks a single font for a whole string (used for titles, headers and TOC entries, which are laid out
+ * as one text block). Uses the family font unless it is missing glyphs that a fallback font has.
+ * @param fonts The font set returned by `registerFonts`.
+ * @param role The font family.
+ * @param style The requested style.
+ * @param text The text to be drawn.
+ * @returns The name to pass to `doc.font()`.
+ */
+export function pickFontForText(fonts: FontSet, role: FontRole, style: FontStyle, text: string): string {
+    const primary = fonts[role][style];
+    const codePoints = Array.from(text, char => char.codePointAt(0) as number);
+    if (fonts.fallbacks.length === 0 || codePoints.every(primary.covers)) {
+        return primary.name;
+    }
+    const fallback = fonts.fallbacks.find(font => codePoints.every(font.covers));
+    return (fallback ?? primary).name;
+}
@@ -1,4 +1,4 @@
-import { SyntaxTheme } from './types';
+import { PrintMode, SyntaxTheme } from './types';
 
 /**
  * Defines the 'light' syntax highlighting theme, similar to GitHub's light theme.
@@ -6,32 +6,63 @@ import { SyntaxTheme } from './types';
 const lightTheme: SyntaxTheme = {
     defaultColor: '#24292e', // Default text color
     backgroundColor: '#ffffff', // White background for code blocks
-    lineNumberColor: '#aaaaaa', // Light gray for line numbers
+    lineNumberColor: '#57606a', // Medium gray for line numbers
     lineNumberBackground: '#f6f8fa', // Very light gray background for the line number gutter
     headerFooterColor: '#586069', // Medium gray for text in headers/footers
     headerFooterBackground: '#f6f8fa', // Match line number background for consistency
     borderColor: '#e1e4e8', // Light gray border color for separators and containers
     tokenColors: {
-        comment: '#6a737d',    // Gray
-        keyword: '#d73a49',    // Red
-        string: '#032f62',     // Dark blue
-        number: '#005cc5',     // Blue
-        literal: '#005cc5',    // Blue (true, false, null)
-        built_in: '#005cc5',   // Blue (console, Math, etc.)
-        function: '#6f42c1',   // Purple (function definitions)
-        title: '#6f42c1',      // Purple (function/class usage, important identifiers)
-        class: '#6f42c1',      // Purple (class definitions)
-        params: '#24292e',     // Default text color for parameters
-        property: '#005cc5',   // Blue for object properties/member access
-        operator: '#d73a49',   // Red
-        punctuation: '#24292e',// Default text color
-        tag: '#22863a',        // Green (HTML/XML tags)
-        attr: '#6f42c1',       // Purple (HTML/XML attributes)
-        variable: '#e36209',   // Orange (variables)
-        regexp: '#032f62',     // Dark blue
+        'comment': '#6a737d',            // Gray
+        'doctag': '#d73a49',             // Red (@param, @returns in doc comments)
+        'keyword': '#d73a49',            // Red
+        'operator': '#d73a49',           // Red
+        'type': '#d73a49',               // Red (type keywords and annotations)
+        'template-tag': '#d73a49',       // Red
+        'template-variable': '#d73a49',  // Red
+        'variable.language': '#d73a49',  // Red (this, self, super)
+        'string': '#032f62',             // Dark blue
+        'regexp': '#032f62',             // Dark blue
+        'char.escape': '#005cc5',        // Blue
+        'subst': '#24292e',              // Default text color for interpolations inside strings
+        'number': '#005cc5',             // Blue
+        'literal': '#005cc5',            // Blue (true, false, null)
+        'built_in': '#005cc5',           // Blue (console, Math, etc.)
+        'symbol': '#bc4c00',             // Orange
+        'title': '#6f42c1',              // Purple (function/class names, important identifiers)
+        'params': '#24292e',             // Default text color for parameters
+        'property': '#005cc5',           // Blue for object properties/member access
+        'punctuation': '#24292e',        // Default text color
+        'variable': '#bc4c00',           // Orange (variables)
+        'variable.constant': '#005cc5',  // Blue
+        'meta': '#005cc5',               // Blue (preprocessor directives, decorators)
+        'meta.keyword': '#d73a49',       // Red
+        'meta.string': '#032f62',        // Dark blue
+        'tag': '#22863a',                // Green (HTML/XML tags)
+        'name': '#22863a',               // Green (tag names)
+        'attr': '#6f42c1',               // Purple (HTML/XML attributes)
+        'attribute': '#005cc5',          // Blue (CSS properties)
+        'selector-tag': '#22863a',       // Green
+        'selector-pseudo': '#22863a',    // Green
+        'selector-id': '#005cc5',        // Blue
+        'selector-class': '#005cc5',     // Blue
+        'selector-attr': '#005cc5',      // Blue
+        'section': '#005cc5',            // Blue (Markdown headings)
+        'bullet': '#735c0f',             // Brown (list markers)
+        'quote': '#22863a',              // Green
+        'code': '#6a737d',               // Gray (inline code in Markdown)
+        'formula': '#6a737d',            // Gray
+        'link': '#032f62',               // Dark blue
+        'emphasis': '#24292e',
+        'strong': '#24292e',
+        'addition': '#22863a',           // Green (diff additions)
+        'deletion': '#b31d28',           // Dark red (diff deletions)
     },
     fontStyles: {
-        comment: 'italic',
+        'comment': 'italic',
+        'section': 'bold',
+        'emphasis': 'italic',
+        'strong': 'bold',
+        'link': 'underline',
     }
 };
 
@@ -47,26 +78,195 @@ const darkTheme: SyntaxTheme = {
     headerFooterBackground: '#161b22', // Match line number background
     borderColor: '#30363d', // Darker gray border color
     tokenColors: {
-        comment: '#8b949e',    // Medium gray
-        keyword: '#ff7b72',    // Light red/coral
-        string: '#a5d6ff',     // Light blue
-        number: '#79c0ff',     // Bright blue
-        literal: '#79c0ff',    // Bright blue
-        built_in: '#79c0ff',   // Bright blue
-        function: '#d2a8ff',   // Light purple
-        title: '#d2a8ff',      // Light purple
-        class: '#d2a8ff',      // Light purple
-        params: '#c9d1d9',     // Default text color
-        property: '#79c0ff',   // Bright blue
-        operator: '#ff7b72',   // Light red/coral
-        punctuation: '#c9d1d9',// Default text color
-        tag: '#7ee787',        // Light green
-        attr: '#d2a8ff',       // Light purple
-        variable: '#ffa657',   // Light orange
-        regexp: '#a5d6ff',     // Light blue
+        'comment': '#8b949e',            // Medium gray
+        'doctag': '#ff7b72',             // Light red/coral
+        'keyword': '#ff7b72',            // Light red/coral
+        'operator': '#ff7b72',           // Light red/coral
+        'type': '#ff7b72',               // Light red/coral
+        'template-tag': '#ff7b72',       // Light red/coral
+        'template-variable': '#ff7b72',  // Light red/coral
+        'variable.language': '#ff7b72',  // Light red/coral
+        'string': '#a5d6ff',             // Light blue
+        'regexp': '#a5d6ff',             // Light blue
+        'char.escape': '#79c0ff',        // Bright blue
+        'subst': '#c9d1d9',              // Default text color for interpolations inside strings
+        'number': '#79c0ff',             // Bright blue
+        'literal': '#79c0ff',            // Bright blue
+        'built_in': '#79c0ff',           // Bright blue
+        'symbol': '#ffa657',             // Light orange
+        'title': '#d2a8ff',              // Light purple
+        'params': '#c9d1d9',             // Default text color
+        'property': '#79c0ff',           // Bright blue
+        'punctuation': '#c9d1d9',        // Default text color
+        'variable': '#ffa657',           // Light orange
+        'variable.constant': '#79c0ff',  // Bright blue
+        'meta': '#79c0ff',               // Bright blue
+        'meta.keyword': '#ff7b72',       // Light red/coral
+        'meta.string': '#a5d6ff',        // Light blue
+        'tag': '#7ee787',                // Light green
+        'name': '#7ee787',               // Light green
+        'attr': '#d2a8ff',               // Light purple
+        'attribute': '#79c0ff',          // Bright blue
+        'selector-tag': '#7ee787',       // Light green
+        'selector-pseudo': '#7ee787',    // Light green
+        'selector-id': '#79c0ff',        // Bright blue
+        'selector-class': '#79c0ff',     // Bright blue
+        'selector-attr': '#79c0ff',      // Bright blue
+        'section': '#79c0ff',            // Bright blue
+        'bullet': '#f2cc60',             // Yellow
+        'quote': '#7ee787',              // Light green
+        'code': '#8b949e',               // Medium gray
+        'formula': '#8b949e',            // Medium gray
+        'link': '#a5d6ff',               // Light blue
+        'emphasis': '#c9d1d9',
+        'strong': '#c9d1d9',
+        'addition': '#aff5b4',           // Pale green
+        'deletion': '#ffdcd7',           // Pale red
     },
     fontStyles: {
-        comment: 'italic',
+        'comment': 'italic',
+        'section': 'bold',
+        'emphasis': 'italic',
+        'strong': 'bold',
+        'link': 'underline',
+    }
+};
+
+/**
+ * Defines the 'high-contrast-light' theme, similar to GitHub's light high contrast theme.
+ * Every text color reaches a contrast of at least 7:1 (WCAG AAA) against its background,
+ * and keywords are bold so they stand out without relying on color.
+ */
+const highContrastLightTheme: SyntaxTheme = {
+    defaultColor: '#0e1116', // Near-black default text
+    backgroundColor: '#ffffff', // White background for code blocks
+    lineNumberColor: '#3d444d', // Dark gray for line numbers
+    lineNumberBackground: '#ffffff', // No tinted gutter, to keep line numbers crisp
+    headerFooterColor: '#0e1116', // Near-black text in headers/footers
+    headerFooterBackground: '#e7ecf0', // Light gray band for headers/footers
+    borderColor: '#20252c', // Dark border color
+    tokenColors: {
+        'comment': '#4b535d',            // Dark gray
+        'doctag': '#a0111f',             // Dark red
+        'keyword': '#a0111f',            // Dark red
+        'operator': '#a0111f',           // Dark red
+        'type': '#a0111f',               // Dark red
+        'template-tag': '#a0111f',       // Dark red
+        'template-variable': '#a0111f',  // Dark red
+        'variable.language': '#a0111f',  // Dark red
+        'string': '#032563',             // Navy
+        'regexp': '#032563',             // Navy
+        'char.escape': '#023b95',        // Dark blue
+        'subst': '#0e1116',              // Default text color for interpolations inside strings
+        'number': '#023b95',             // Dark blue
+        'literal': '#023b95',            // Dark blue
+        'built_in': '#023b95',           // Dark blue
+        'symbol': '#702c00',             // Dark orange
+        'title': '#622cbc',              // Dark purple
+        'params': '#0e1116',             // Default text color
+        'property': '#023b95',           // Dark blue
+        'punctuation': '#0e1116',        // Default text color
+        'variable': '#702c00',           // Dark orange
+        'variable.constant': '#023b95',  // Dark blue
+        'meta': '#023b95',               // Dark blue
+        'meta.keyword': '#a0111f',       // Dark red
+        'meta.string': '#032563',        // Navy
+        'tag': '#024c1a',                // Dark green
+        'name': '#024c1a',               // Dark green
+        'attr': '#622cbc',               // Dark purple
+        'attribute': '#023b95',          // Dark blue
+        'selector-tag': '#024c1a',       // Dark green
+        'selector-pseudo': '#024c1a',    // Dark green
+        'selector-id': '#023b95',        // Dark blue
+        'selector-class': '#023b95',     // Dark blue
+        'selector-attr': '#023b95',      // Dark blue
+        'section': '#023b95',            // Dark blue
+        'bullet': '#603700',             // Dark brown
+        'quote': '#024c1a',              // Dark green
+        'code': '#4b535d',               // Dark gray
+        'formula': '#4b535d',            // Dark gray
+        'link': '#032563',               // Navy
+        'emphasis': '#0e1116',
+        'strong': '#0e1116',
+        'addition': '#024c1a',           // Dark green
+        'deletion': '#86061d',           // Dark red
+    },
+    fontStyles: {
+        'comment': 'italic',
+        'keyword': 'bold',
+        'section': 'bold',
+        'emphasis': 'italic',
+        'strong': 'bold',
+        'link': 'underline',
+    }
+};
+
+/**
+ * Defines the 'high-contrast-dark' theme, similar to GitHub's dark high contrast theme.
+ * Every text color reaches a contrast of at least 7:1 (WCAG AAA) against its background,
+ * and keywords are bold so they stand out without relying on color.
+ */
+const highContrastDarkTheme: SyntaxTheme = {
+    defaultColor: '#f0f3f6', // Near-white default text
+    backgroundColor: '#0a0c10', // Near-black background for code blocks
+    lineNumberColor: '#b7bdc8', // Light gray for line numbers
+    lineNumberBackground: '#0a0c10', // No tinted gutter, to keep line numbers crisp
+    headerFooterColor: '#f0f3f6', // Near-white text in headers/footers
+    headerFooterBackground: '#272b33', // Dark gray band for headers/footers
+    borderColor: '#7a828e', // Light border color
+    tokenColors: {
+        'comment': '#bdc4cc',            // Light gray
+        'doctag': '#ff9492',             // Light red
+        'keyword': '#ff9492',            // Light red
+        'operator': '#ff9492',           // Light red
+        'type': '#ff9492',               // Light red
+        'template-tag': '#ff9492',       // Light red
+        'template-variable': '#ff9492',  // Light red
+        'variable.language': '#ff9492',  // Light red
+        'string': '#addcff',             // Light blue
+        'regexp': '#addcff',             // Light blue
+        'char.escape': '#91cbff',        // Bright blue
+        'subst': '#f0f3f6',              // Default text color for interpolations inside strings
+        'number': '#91cbff',             // Bright blue
+        'literal': '#91cbff',            // Bright blue
+        'built_in': '#91cbff',           // Bright blue
+        'symbol': '#ffb757',             // Light orange
+        'title': '#dbb7ff',              // Light purple
+        'params': '#f0f3f6',             // Default text color
+        'property': '#91cbff',           // Bright blue
+        'punctuation': '#f0f3f6',        // Default text color
+        'variable': '#ffb757',           // Light orange
+        'variable.constant': '#91cbff',  // Bright blue
+        'meta': '#91cbff',               // Bright blue
+        'meta.keyword': '#ff9492',       // Light red
+        'meta.string': '#addcff',        // Light blue
+        'tag': '#72f088',                // Light green
+        'name': '#72f088',               // Light green
+        'attr': '#dbb7ff',               // Light purple
+        'attribute': '#91cbff',          // Bright blue
+        'selector-tag': '#72f088',       // Light green
+        'selector-pseudo': '#72f088',    // Light green
+        'selector-id': '#91cbff',        // Bright blue
+        'selector-class': '#91cbff',     // Bright blue
+        'selector-attr': '#91cbff',      // Bright blue
+        'section': '#91cbff',            // Bright blue
+        'bullet': '#f0b72f',             // Yellow
+        'quote': '#72f088',              // Light green
+        'code': '#bdc4cc',               // Light gray
+        'formula': '#bdc4cc',            // Light gray
+        'link': '#addcff',               // Light blue
+        'emphasis': '#f0f3f6',
+        'strong': '#f0f3f6',
+        'addition': '#acf7b6',           // Pale green
+        'deletion': '#ffdbd9',           // Pale red
+    },
+    fontStyles: {
+        'comment': 'italic',
+        'keyword': 'bold',
+        'section': 'bold',
+        'emphasis': 'italic',
+        'strong': 'bold',
+        'link': 'underline',
     }
 };
 
@@ -80,6 +280,8 @@ const darkTheme: SyntaxTheme = {
 export const themes: Record<string, SyntaxTheme> = {
     light: lightTheme,
     dark: darkTheme,
+    'high-contrast-light': highContrastLightTheme,
+    'high-contrast-dark': highContrastDarkTheme,
     // Add other themes here:
     // solarized: solarizedLightTheme,
 };
@@ -104,3 +306,109 @@ export function getTheme(themeName: string): SyntaxTheme {
     return theme; // Return the found theme
 }
 
+// --- Scope Lookup ---
+
+/** Legacy theme keys that also apply to the highlight.js v11 scope they used to stand for. */
+const LEGACY_SCOPE_KEYS: Record<string, string> = {
+    'title.function': 'function',
+    'title.class': 'class',
+};
+
+/**
+ * Lists the theme keys consulted for a highlight.js scope, most specific first:
+ * the scope itself, its legacy key (if any), then each dotted parent ('title.class.inherited' ->
+ * 'title.class' -> 'class' -> 'title').
+ * @param scope A highlight.js scope such as 'title.function'.
+ * @returns The keys to look up, in order.
+ */
+export function getScopeFallbackChain(scope: string): string[] {
+    const chain: string[] = [];
+    const parts = scope.split('.');
+    for (let length = parts.length; length > 0; length--) {
+        const key = parts.slice(0, length).join('.');
+        chain.push(key);
+        if (LEGACY_SCOPE_KEYS[key]) chain.push(LEGACY_SCOPE_KEYS[key]);
+    }
+    return chain;
+}
+
+/**
+ * Looks up the value a theme mapping (`tokenColors` or `fontStyles`) defines for a scope,
+ * following the scope's fallback chain.
+ * @param mapping The theme mapping.
+ * @param scope A highlight.js scope.
+ * @returns The value of the most specific key found, or undefined.
+ */
+export function lookupScopeValue(mapping: Record<string, string> | undefined, scope: string): string | undefined {
+    if (!mapping) return undefined;
+    const key = getScopeFallbackChain(scope).find(candidate => mapping[candidate] !== undefined);
+    return key === undefined ? undefined : mapping[key];
+}
+
+// --- Print Modes ---
+
+/** The rendering modes selectable with `--print-mode`. */
+export const PRINT_MODES: PrintMode[] = ['color', 'mono'];
+
+/** Grays used by the 'mono' print mode. Each keeps a contrast of at least 7:1 against white paper. */
+const MONO_TEXT = '#000000';
+const MONO_STRING = '#3d3d3d'; // ~11:1
+const MONO_MUTED = '#555555'; // ~7.5:1, for comments, line numbers and headers
+const MONO_BORDER = '#8c8c8c'; // Only used for thin rules, never for text
+
+/**
+ * Gray level and font style of each scope in the 'mono' print mode. Token kinds that share a gray
+ * are told apart by their font style (keywords bold, types italic, definitions underlined, ...).
+ */
+const MONO_SCOPE_STYLES: Record<string, [color: string, fontStyle: string]> = {
+    'comment': [MONO_MUTED, 'italic'],
+    'quote': [MONO_MUTED, 'italic'],
+    'doctag': [MONO_MUTED, 'bold italic'],
+    'meta': [MONO_MUTED, 'normal'],
+    'deletion': [MONO_MUTED, 'normal'],
+    'keyword': [MONO_TEXT, 'bold'],
+    'meta.keyword': [MONO_TEXT, 'bold'],
+    'variable.language': [MONO_TEXT, 'bold'],
+    'selector-tag': [MONO_TEXT, 'bold'],
+    'section': [MONO_TEXT, 'bold'],
+    'strong': [MONO_TEXT, 'bold'],
+    'addition': [MONO_TEXT, 'bold'],
+    'type': [MONO_TEXT, 'italic'],
+    'built_in': [MONO_TEXT, 'italic'],
+    'emphasis': [MONO_TEXT, 'italic'],
+    'title': [MONO_TEXT, 'underline'],
+    'title.function.invoke': [MONO_TEXT, 'normal'], // Calls are not definitions
+    'subst': [MONO_TEXT, 'normal'],
+    'string': [MONO_STRING, 'normal'],
+    'meta.string': [MONO_STRING, 'normal'],
+    'regexp': [MONO_STRING, 'normal'],
+    'char.escape': [MONO_STRING, 'bold'],
+    'number': [MONO_STRING, 'normal'],
+    'literal': [MONO_STRING, 'normal'],
+    'symbol': [MONO_STRING, 'normal'],
+    'code': [MONO_STRING, 'normal'],
+    'link': [MONO_STRING, 'underline'],
+};
+
+/**
+ * Converts a theme into a grayscale variant for monochrome printers. The theme's colors are replaced
+ * (different hues often turn into the same gray), token kinds are told apart by gray level and font
+ * style, and every background becomes white so no filled areas are printed.
+ * The theme's own font styles are kept for scopes the mono styles do not cover.
+ * @param theme The theme to convert.
+ * @returns The grayscale theme.
+ */
+export function toMonochromeTheme(theme: SyntaxTheme): SyntaxTheme {
+    const entries = Object.entries(MONO_SCOPE_STYLES);
+    return {
+        defaultColor: MONO_TEXT,
+        backgroundColor: '#ffffff',
+        lineNumberColor: MONO_MUTED,
+        lineNumberBackground: '#ffffff',
+        headerFooterColor: MONO_MUTED,
+        headerFooterBackground: '#ffffff',
+        borderColor: MONO_BORDER,
+        tokenColors: Object.fromEntries(entries.map(([scope, [color]]) => [scope, color])),
+        fontStyles: { ...theme.fontStyles, ...Object.fromEntries(entries.map(([scope, [, fontStyle]]) => [scope, fontStyle])) },
+    };
+}
@@ -11,10 +11,23 @@ export interface FileInfo {
   content: string;
   /** The file extension (e.g., 'ts', 'js', 'py') without the leading dot, converted to lowercase. */
   extension: string;
-  /** The programming language detected for syntax highlighting purposes. Initially empty, populated by the highlighter. */
+  /** The highlight.js language detected for the file (by file name, extension, shebang, modeline or content), or 'plaintext'. */
   language: string;
 }
 
+/**
+ * Options narrowing down which files are picked up when scanning the repository.
+ * All patterns use gitignore syntax and are matched against paths relative to the repository root.
+ */
+export interface FileFilterOptions {
+  /** If non-empty, only files matching at least one of these patterns are included. */
+  include: string[];
+  /** Files matching any of these patterns are excluded (applied after all ignore files). */
+  exclude: string[];
+  /** Directory names to remove from the built-in always-ignore list (e.g. 'vendor', 'build'). */
+  unignore: string[];
+}
+
 /**
  * Represents a single, styled segment (token) within a line of highlighted code.
  * Tokens are typically keywords, strings, comments, operators, etc.
@@ -26,6 +39,108 @@ export interface HighlightedToken {
   color?: string;
   /** Optional: The font style ('normal', 'italic', 'bold', 'bold-italic') determined by the syntax theme. Defaults to 'normal'. */
   fontStyle?: 'normal' | 'italic' | 'bold' | 'bold-italic';
+  /** Optional: Whether the token is underlined, as determined by the syntax theme. Defaults to false. */
+  underline?: boolean;
+  /** Optional: Whether the token is part of a comment. Defaults to false. */
+  comment?: boolean;
+}
+
+/**
+ * How colors are rendered: 'color' uses the theme as is, 'mono' converts it to a grayscale variant
+ * (styles instead of hues, no filled backgrounds) for monochrome printers.
+ */
+export type PrintMode = 'color' | 'mono';
+
+/**
+ * A header or footer line: left-aligned, centered and right-aligned text, each of which may contain
+ * placeholders such as `{file}` or `{page}` that are filled in per page.
+ */
+export interface PageTemplate {
+  left: string;
+  center: string;
+  right: string;
+}
+
+/**
+ * The git revision of the scanned directory, shown by the `{gitCommit}` and `{gitBranch}` placeholders.
+ */
+export interface RevisionInfo {
+  /** The abbreviated hash of the checked-out commit, or null if the directory is not in a git repository. */
+  commit: string | null;
+  /** The checked-out branch, or null if HEAD is detached or the directory is not in a git repository. */
+  branch: string | null;
+}
+
+/**
+ * What blank pages inserted so files start on recto pages show: 'marked' pages are counted and say they are
+ * intentionally blank, 'uncounted' pages stay empty and are skipped in the page numbering.
+ */
+export type BlankPageMode = 'marked' | 'uncounted';
+
+/**
+ * A range of lines emphasized with a colored band, from an annotations file or `--highlight`.
+ * Annotations with a note also get a numbered callout marker in the gutter.
+ */
+export interface Annotation {
+  /** The annotated file's path relative to the repository root, with forward slashes. */
+  file: string;
+  /** The first and last annotated line (1-based, inclusive). */
+  startLine: number;
+  endLine: number;
+  /** The note shown for the range, or null to highlight the lines only. */
+  note: string | null;
+  /** The band color ('#rgb' or '#rrggbb'), or null for the default color. */
+  color: string | null;
+}
+
+/**
+ * Where annotation notes are printed: 'margin' next to the annotated lines (the code narrows to make room),
+ * 'appendix' in an "Annotations" section after the code, linking back to each annotated page.
+ */
+export type AnnotationNoteMode = 'margin' | 'appendix';
+
+/** The named paper sizes. */
+export type PaperSizeName = 'A3' | 'A4' | 'A5' | 'Letter' | 'Legal' | 'Tabloid';
+
+/**
+ * The page orientation: 'portrait' or 'landscape' for every page, or 'auto' to give landscape pages
+ * to the files whose longest line would wrap on a portrait page (other pages stay portrait).
+ */
+export type Orientation = 'portrait' | 'landscape' | 'auto';
+
+/**
+ * How lines longer than the code width are handled: 'wrap' continues them on further visual lines,
+ * 'truncate' cuts them off with an overflow marker, and 'shrink' reduces the font size of the file
+ * so its longest line fits (down to a minimum size, wrapping whatever still does not fit).
+ */
+export type WrapMode = 'wrap' | 'truncate' | 'shrink';
+
+/**
+ * How a line changed between the two revisions compared in diff mode:
+ * 'added' (only in the head revision), 'removed' (only in the base revision) or 'context' (unchanged).
+ */
+export type LineChangeKind = 'added' | 'removed' | 'context';
+
+/**
+ * A range of a line's text that links to another file of the document (e.g. the path in an import).
+ */
+export interface LineLink {
+  /** Offset of the first linked character in the line's text (the joined token texts). */
+  start: number;
+  /** Offset just after the last linked character. */
+  end: number;
+  /** The relative path of the linked file. */
+  target: string;
+}
+
+/**
+ * A comment marker such as `TODO` or `FIXME` found in a comment, with the text following it.
+ */
+export interface CommentMarker {
+  /** The tag as written (e.g. 'FIXME'). */
+  tag: string;
+  /** The rest of the comment after the tag, without separators or comment delimiters. */
+  text: string;
 }
 
 /**
@@ -33,10 +148,16 @@ export interface HighlightedToken {
  * broken down into styled tokens.
  */
 export interface HighlightedLine {
-  /** The original line number (1-based) in the source file. */
+  /** The original line number (1-based) in the source file (in the base revision for removed lines). */
   lineNumber: number;
   /** An array of styled tokens that make up this line. */
   tokens: HighlightedToken[];
+  /** Optional: How the line changed, set only in diff mode. */
+  change?: LineChangeKind;
+  /** Optional: Ranges of the line linking to other files (imports and includes). */
+  links?: LineLink[];
+  /** Optional: The comment markers on the line, set when comment markers are collected. */
+  markers?: CommentMarker[];
 }
 
 /**
@@ -48,6 +169,18 @@ export interface HighlightedFile extends FileInfo {
   highlightedLines: HighlightedLine[];
 }
 
+/**
+ * Options for diff mode, which prints only the files changed between two git revisions.
+ */
+export interface DiffOptions {
+  /** The base revision (e.g. 'main', a tag or a commit hash). */
+  base: string;
+  /** The head revision, or null to compare against the working tree. */
+  head: string | null;
+  /** Number of unchanged lines kept around each change; longer unchanged regions are collapsed. */
+  contextLines: number;
+}
+
 /**
  * Configuration options controlling the PDF generation process.
  * These are typically derived from command-line arguments or defaults.
@@ -61,25 +194,114 @@ export interface PdfOptions {
   fontSize: number;
   /** Flag indicating whether line numbers should be displayed next to the code. */
   showLineNumbers: boolean;
-  /** The identifier (e.g., 'light', 'dark') of the syntax highlighting theme to use. */
+  /**
+   * The syntax highlighting theme to use: a built-in theme name (e.g., 'light', 'dark'), the name of a
+   * theme file in `themesDir`, or the absolute path to a theme file.
+   */
   theme: string;
+  /** The absolute path to the directory of additional theme files, or null if none is configured. */
+  themesDir: string | null;
+  /**
+   * The paper size for the PDF document. Can be a standard name ('A4', 'Letter', 'Legal', ...)
+   * or a custom size specified as portrait [width, height] in PDF points (72 points per inch).
+   */
+  paperSize: PaperSizeName | [number, number];
+  /** The page orientation; the paper size is turned for landscape pages. */
+  orientation: Orientation;
+  /** The number of columns code flows through on each page. */
+  columns: number;
+  /** Flag indicating whether small files are packed onto the same page, separated by file banners, instead of each starting a new page. */
+  packFiles: boolean;
   /**
-   * The paper size for the PDF document. Can be a standard name ('A4', 'Letter')
-   * or a custom size specified as [width, height] in PDF points (72 points per inch).
+   * Margins (in points) for the top, right, bottom, and left edges of each page.
+   * In duplex mode, left is the inner (binding) margin and right the outer margin, mirrored on even pages.
    */
-  paperSize: 'A4' | 'Letter' | [number, number];
-  /** Margins (in points) for the top, right, bottom, and left edges of each page. */
   margins: { top: number; right: number; bottom: number; left: number };
-  /** The height (in points) reserved for the header section on each code page. */
+  /** Flag indicating whether pages are laid out for double-sided printing: mirrored margins, headers and footers. */
+  duplex: boolean;
+  /** Flag indicating whether blank pages are inserted so the TOC and every file start on a recto (odd) page. */
+  rectoStarts: boolean;
+  /** What the blank pages inserted for recto starts show. */
+  blankPages: BlankPageMode;
+  /** The height (in points) reserved for the header section on each code page (0 hides the header). */
   headerHeight: number;
-  /** The height (in points) reserved for the footer section on each code page. */
+  /** The height (in points) reserved for the footer section on each code page (0 hides the footer). */
   footerHeight: number;
+  /** The header line of each code page. */
+  headerTemplate: PageTemplate;
+  /** The footer line of each code page. */
+  footerTemplate: PageTemplate;
+  /** The line ranges to highlight, with optional notes. */
+  annotations: Annotation[];
+  /** Where annotation notes are printed. */
+  annotationNotes: AnnotationNoteMode;
   /** The title text used for the Table of Contents page. */
   tocTitle: string;
-  /** The name of the font to use for rendering code blocks (e.g., 'Courier', 'Consolas'). Must be a standard PDF font or embedded. */
+  /**
+   * The font used for code blocks: either a standard PDF font family ('Courier', 'Helvetica', 'Times-Roman')
+   * or the path to a TrueType/OpenType file to embed.
+   */
   codeFont: string;
-  /** The name of the font to use for non-code text (titles, TOC, headers, footers) (e.g., 'Helvetica', 'Times-Roman'). Must be a standard PDF font or embedded. */
+  /** Optional font files for the bold, italic and bold-italic styles of an embedded `codeFont`. */
+  codeFontVariants: FontVariants;
+  /**
+   * The font used for non-code text (titles, TOC, headers, footers): either a standard PDF font family
+   * or the path to a TrueType/OpenType file to embed.
+   */
   textFont: string;
+  /** Optional font files for the bold, italic and bold-italic styles of an embedded `textFont`. */
+  textFontVariants: FontVariants;
+  /** Paths to font files used, in order, for characters that the code or text font has no glyph for. */
+  fallbackFonts: string[];
+  /** Filters controlling which files of the repository are included. */
+  fileFilters: FileFilterOptions;
+  /** Diff mode settings, or null to print the whole tree. */
+  diff: DiffOptions | null;
+  /**
+   * User language mapping: file extensions (without the dot) or exact file names mapped to highlight.js
+   * language names. Takes precedence over the built-in detection.
+   */
+  languageMap: Record<string, string>;
+  /** Paths to highlight.js language definition modules to register before highlighting. */
+  grammars: string[];
+  /** Flag indicating whether top-level symbols (functions, classes) are added below each file in the PDF outline. */
+  outlineSymbols: boolean;
+  /** Flag indicating whether a repository statistics section (lines per language, largest files, ...) follows the cover page. */
+  statistics: boolean;
+  /** Flag indicating whether an alphabetical index of all symbols (with page numbers and links) is appended. */
+  symbolIndex: boolean;
+  /** Flag indicating whether imports and includes of other printed files link to those files. */
+  importLinks: boolean;
+  /** Flag indicating whether an appendix listing the comment markers (TODO, FIXME, ...) by tag and file is appended. */
+  todoIndex: boolean;
+  /** The comment marker tags collected (the defaults plus any added with `--todo-tag`). */
+  todoTags: string[];
+  /** Flag indicating whether lines with a comment marker are emphasized in the code pages. */
+  emphasizeTodos: boolean;
+  /** The number of columns between tab stops; tabs are expanded to spaces before layout. */
+  tabWidth: number;
+  /** Flag indicating whether tabs, trailing spaces and non-breaking/zero-width characters are drawn as visible markers. */
+  showWhitespace: boolean;
+  /** How lines longer than the code width are handled. */
+  wrapMode: WrapMode;
+  /** The smallest font size (in points) 'shrink' mode may reduce a file to. */
+  minFontSize: number;
+  /** The rendering mode: the theme's colors, or a grayscale variant without filled backgrounds. */
+  printMode: PrintMode;
+  /** How theme colors with too little contrast are handled. */
+  contrastMode: ContrastMode;
+  /** The minimum WCAG 2 contrast ratio between text and its background (4.5 is level AA, 7 is AAA). */
+  minContrast: number;
+}
+
+/**
+ * Paths to the font files providing the style variants of an embedded font.
+ * Any variant left out is drawn with the regular font.
+ */
+export interface FontVariants {
+  bold?: string;
+  italic?: string;
+  boldItalic?: string;
 }
 
 /**
@@ -101,32 +323,134 @@ export interface SyntaxTheme {
   headerFooterBackground: string;
   /** The color used for border lines (e.g., around code blocks, header/footer separators). */
   borderColor: string;
-  /** A mapping of semantic token types (derived from highlight.js classes) to specific hex color codes. */
-  tokenColors: {
-    keyword?: string;
-    string?: string;
-    comment?: string;
-    number?: string;
-    function?: string; // e.g., function name definition
-    class?: string;    // e.g., class name definition
-    title?: string;    // e.g., function/class usage, important identifiers
-    params?: string;   // Function parameters
-    built_in?: string; // Built-in functions/variables/types
-    literal?: string;  // e.g., true, false, null, undefined
-    property?: string; // Object properties, member access
-    operator?: string;
-    punctuation?: string;
-    attr?: string;     // HTML/XML attributes names
-    tag?: string;      // HTML/XML tags names including </>
-    variable?: string; // Variable declarations/usage
-    regexp?: string;   // Regular expressions
-    // Add more specific highlight.js scopes as needed (e.g., 'meta', 'section', 'type')
-  };
-  /** Optional: A mapping of semantic token types to specific font styles. */
-  fontStyles?: {
-    comment?: 'italic';
-    keyword?: 'bold';
-    // Add more styles if desired
-  };
+  /**
+   * A mapping of highlight.js scopes (e.g. 'keyword', 'title.function', 'meta.string', 'selector-tag') to
+   * hex color codes. Dotted scopes fall back to their parents ('title.function' -> 'title'), and tokens
+   * nested inside another scope (e.g. 'subst' inside 'string') inherit its color when their own scope has none.
+   * A nested scope can also be styled specifically as `<parent>.<scope>` (e.g. 'meta.keyword').
+   * The legacy keys 'function' and 'class' also color 'title.function' and 'title.class'.
+   */
+  tokenColors: Record<string, string>;
+  /**
+   * Optional: A mapping of highlight.js scopes to font styles, with the same fallback rules as `tokenColors`.
+   * Each value is a space-separated combination of 'bold', 'italic' and 'underline', or 'normal' to clear
+   * styles inherited from a parent scope (e.g. { "comment": "italic", "section": "bold underline" }).
+   */
+  fontStyles?: Record<string, string>;
+}
+
+
+/**
+ * A theme color whose contrast against the background it is drawn on is below the required ratio.
+ */
+export interface ContrastIssue {
+  /** The theme key of the color, e.g. 'lineNumberColor' or 'tokenColors.comment'. */
+  key: string;
+  /** The text color. */
+  color: string;
+  /** The background color it is drawn on. */
+  background: string;
+  /** The WCAG 2 contrast ratio between the two (1-21). */
+  ratio: number;
+}
+
+/**
+ * What to do when theme colors have too little contrast: 'warn' lists them, 'fix' darkens or lightens
+ * them until they reach the required ratio, and 'off' skips the check.
+ */
+export type ContrastMode = 'warn' | 'fix' | 'off';
+
+/**
+ * Represents a named definition (function, class, etc.) found in a source file.
+ * Used to build navigation aids such as the PDF outline.
+ */
+export interface CodeSymbol {
+  /** The name of the symbol as written in the source. */
+  name: string;
+  /** The kind of definition the symbol represents. */
+  kind: 'function' | 'class' | 'interface' | 'type' | 'enum' | 'module' | 'method';
+  /** The line number (1-based) on which the definition starts. */
+  lineNumber: number;
+  /** For methods found inside a class (or impl block, module, ...), the name of that container. */
+  container?: string;
 }
 
+/**
+ * The contents of a project configuration file (`.codepdfrc`, `.codepdfrc.json` or `codepdf.config.json`).
+ * Keys mirror the command-line options; values given on the command line take precedence.
+ * Relative paths are resolved against the directory containing the configuration file.
+ */
+export interface CodepdfConfig {
+  output?: string;
+  title?: string;
+  fontSize?: number;
+  /** A theme name or the path to a theme file. */
+  theme?: string;
+  /** Directory containing additional theme files (`<name>.json`) selectable by name. */
+  themesDir?: string;
+  tabWidth?: number;
+  /** 'wrap', 'truncate' or 'shrink'. */
+  wrap?: string;
+  minFontSize?: number;
+  showWhitespace?: boolean;
+  /** 'color' or 'mono'. */
+  printMode?: string;
+  /** 'warn', 'fix' or 'off'. */
+  contrast?: string;
+  /** The minimum WCAG 2 contrast ratio. */
+  minContrast?: number;
+  lineNumbers?: boolean;
+  /** A standard paper size name or [width, height] in points. */
+  paperSize?: string | [number, number];
+  /** 'portrait', 'landscape' or 'auto'. */
+  orientation?: string;
+  columns?: number;
+  packFiles?: boolean;
+  duplex?: boolean;
+  rectoStarts?: boolean;
+  /** 'marked' or 'uncounted'. */
+  blankPages?: string;
+  /** Page margins in points; omitted edges keep their defaults. */
+  margins?: Partial<PdfOptions['margins']>;
+  headerHeight?: number;
+  footerHeight?: number;
+  /** Header template: "left|center|right" sections with placeholders. */
+  header?: string;
+  /** Footer template: "left|center|right" sections with placeholders. */
+  footer?: string;
+  tocTitle?: string;
+  /** Path to an annotations file (JSON or YAML). */
+  annotations?: string;
+  /** Line ranges to highlight, as "path:start-end". */
+  highlights?: string[];
+  /** 'margin' or 'appendix'. */
+  annotationNotes?: string;
+  codeFont?: string;
+  codeFontBold?: string;
+  codeFontItalic?: string;
+  codeFontBoldItalic?: string;
+  textFont?: string;
+  textFontBold?: string;
+  textFontItalic?: string;
+  textFontBoldItalic?: string;
+  fallbackFonts?: string[];
+  outlineSymbols?: boolean;
+  statistics?: boolean;
+  symbolIndex?: boolean;
+  importLinks?: boolean;
+  todoIndex?: boolean;
+  todoTags?: string[];
+  emphasizeTodos?: boolean;
+  include?: string[];
+  exclude?: string[];
+  unignore?: string[];
+  /** Unchanged lines of context kept around changes in diff mode. */
+  diffContext?: number | 'all';
+  /** File extensions or exact file names mapped to highlight.js language names (e.g. { "inc": "php" }). */
+  languages?: Record<string, string>;
+  /** Paths to highlight.js language definition modules to register. */
+  grammars?: string[];
+  verbose?: boolean;
+  /** Named sets of overrides (e.g. 'review', 'archive') selected with `--profile <name>`. */
+  profiles?: Record<string, Omit<CodepdfConfig, 'profiles'>>;
+}
@@ -0,0 +1,126 @@
+import { HighlightedLine, HighlightedToken, LineLink } from './utils/types';
+
+/** Marker drawn at the start of an expanded tab when whitespace is shown. */
+const TAB_MARKER = '»';
+/** Marker drawn in place of each trailing space when whitespace is shown. */
+const TRAILING_SPACE_MARKER = '·';
+/** Marker drawn in place of non-breaking spaces when whitespace is shown. */
+const NON_BREAKING_SPACE_MARKER = '°';
+/** Marker drawn where a zero-width character sits when whitespace is shown. */
+const ZERO_WIDTH_MARKER = '¦';
+
+/** Non-breaking spaces: no-break space, figure space and narrow no-break space. */
+const NON_BREAKING_SPACES = new Set(['\u00a0', '\u2007', '\u202f']);
+/** Invisible characters: zero-width space, non-joiner and joiner, word joiner and byte order mark. */
+const ZERO_WIDTH_CHARACTERS = new Set(['\u200b', '\u200c', '\u200d', '\u2060', '\ufeff']);
+
+/** Lines that need no changes: no tabs and, when whitespace is shown, nothing to mark either. */
+const SPECIAL_WHITESPACE_PATTERN = /[ \t]$|[\u00a0\u2007\u202f\u200b-\u200d\u2060\ufeff]/;
+
+/**
+ * Settings for tab expansion and whitespace markers.
+ */
+export interface WhitespaceOptions {
+    /** The number of columns between tab stops. */
+    tabWidth: number;
+    /** Whether tabs, trailing spaces and non-breaking/zero-width characters are drawn as visible markers. */
+    showWhitespace: boolean;
+    /** The color of the whitespace markers. */
+    markerColor: string;
+}
+
+/**
+ * Expands the tabs of one line to the next tab stop and, if enabled, replaces invisible whitespace with markers.
+ * Columns are counted in characters across token boundaries, so a tab inside a string token still lines up.
+ * @param tokens The tokens of the line.
+ * @param options The whitespace settings.
+ * @returns The tokens to render, with markers as separate tokens drawn in the marker color, and where each
+ *   character of the original text starts in the expanded text (indexed by original offset, with one extra
+ *   entry for the end of the line), or null if the line is unchanged.
+ */
+function expandLineWhitespace(tokens: HighlightedToken[], options: WhitespaceOptions): { tokens: HighlightedToken[]; offsets: number[] | null } {
+    const lineText = tokens.map(token => token.text).join('');
+    if (!lineText.includes('\t') && !(options.showWhitespace && SPECIAL_WHITESPACE_PATTERN.test(lineText))) {
+        return { tokens, offsets: null };
+    }
+    const trailingStart = lineText.length - (lineText.match(/[ \t]*$/)?.[0].length ?? 0);
+
+    const result: HighlightedToken[] = [];
+    let column = 0;
+    let offset = 0; // Position in lineText, used to recognise trailing whitespace
+    let expandedLength = 0; // Length of the expanded text so far
+    const offsets: number[] = [];
+    for (const token of tokens) {
+        let text = '';
+        const flush = () => {
+            if (text) result.push({ ...token, text });
+            text = '';
+        };
+        const pushMarker = (marker: string) => {
+            flush();
+            result.push({ text: marker, color: options.markerColor, fontStyle: 'normal' });
+        };
+
+        for (const char of token.text) {
+            offsets[offset] = expandedLength;
+            if (char === '\t') {
+                const width = options.tabWidth - (column % options.tabWidth);
+                if (options.showWhitespace) {
+                    pushMarker(TAB_MARKER + ' '.repeat(width - 1));
+                } else {
+                    text += ' '.repeat(width);
+                }
+                column += width;
+                expandedLength += width;
+            } else if (options.showWhitespace && char === ' ' && offset >= trailingStart) {
+                pushMarker(TRAILING_SPACE_MARKER);
+                column++;
+                expandedLength++;
+            } else if (options.showWhitespace && NON_BREAKING_SPACES.has(char)) {
+                pushMarker(NON_BREAKING_SPACE_MARKER);
+                column++;
+                expandedLength++;
+            } else if (options.showWhitespace && ZERO_WIDTH_CHARACTERS.has(char)) {
+                pushMarker(ZERO_WIDTH_MARKER);
+                column++;
+                expandedLength++;
+            } else {
+                text += char;
+                column += ZERO_WIDTH_CHARACTERS.has(char) ? 0 : 1;
+                expandedLength += char.length;
+            }
+            offset += char.length;
+        }
+        flush();
+    }
+    offsets[offset] = expandedLength;
+    return { tokens: result, offsets };
+}
+
+/**
+ * Moves link ranges found in the original text of a line to the same characters in its expanded text.
+ * @param links The links of the line.
+ * @param offsets Where each original character starts in the expanded text.
+ * @returns The links with expanded offsets.
+ */
+function remapLinks(links: LineLink[], offsets: number[]): LineLink[] {
+    return links.map(link => ({ ...link, start: offsets[link.start] ?? link.start, end: offsets[link.end] ?? link.end }));
+}
+
+/**
+ * Expands tabs to spaces at the configured tab stops and, if enabled, makes invisible whitespace visible.
+ * Runs after highlighting and before layout, so wrapping measures the text that is actually drawn.
+ * Import links (found in the original text) are moved along with the characters they cover.
+ * @param lines The highlighted lines of a file.
+ * @param options The whitespace settings.
+ * @returns The lines with expanded tokens.
+ */
+export function expandWhitespace(lines: HighlightedLine[], options: WhitespaceOptions): HighlightedLine[] {
+    return lines.map(line => {
+        const { tokens, offsets } = expandLineWhitespace(line.tokens, options);
+        if (!offsets) {
+            return line;
+        }
+        return line.links ? { ...line, tokens, links: remapLinks(line.links, offsets) } : { ...line, tokens };
+    });
+}